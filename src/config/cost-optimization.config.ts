@@ -1,5 +1,7 @@
 // src/config/cost-optimization.config.ts
 
+import type {SpeechRecognitionConfig} from '../interfaces/audio.interface';
+
 /**
  * Cost optimization configuration for Google Speech-to-Text API
  */
@@ -24,7 +26,7 @@ export const COST_OPTIMIZATION_TIERS: Record<string, CostOptimizationTier> = {
         enableWordTimeOffsets: false,
         model: 'default',
         enableDataLogging: true,
-        estimatedCostMultiplier: 1.0 // Base cost only
+        estimatedCostMultiplier: 1.0 // Fewest features; speakers are still diarized
     },
     BALANCED: {
         name: 'Balanced',
@@ -64,7 +66,7 @@ export const DEFAULT_OPTIMIZATION_SETTINGS = {
 
     // Audio preprocessing for cost savings
     enableSilenceRemoval: true,
-    maxAudioDuration: 3600, // 1 hour limit
+    maxAudioDuration: 7200, // 2 hour limit (matches upload validation); long calls are chunked
     targetSampleRate: 16000, // Optimal for speech recognition
 
     // Feature toggles
@@ -81,6 +83,36 @@ export const DEFAULT_OPTIMIZATION_SETTINGS = {
     alertThreshold: 0.80 // Alert at 80% of limits
 };
 
+/**
+ * Processing cost limits per subscription plan (USD)
+ */
+export interface PlanBudgetLimits {
+    maxCostPerRequest: number;
+    monthlyCostLimit: number;
+}
+
+export const PLAN_BUDGET_LIMITS: Record<'basic' | 'premium' | 'enterprise', PlanBudgetLimits> = {
+    basic: {
+        maxCostPerRequest: 1.00,
+        monthlyCostLimit: 10.00
+    },
+    premium: {
+        maxCostPerRequest: DEFAULT_OPTIMIZATION_SETTINGS.maxCostPerRequest,
+        monthlyCostLimit: DEFAULT_OPTIMIZATION_SETTINGS.monthlyCostLimit
+    },
+    enterprise: {
+        maxCostPerRequest: 25.00,
+        monthlyCostLimit: 1000.00
+    }
+};
+
+/**
+ * Default budget action when a request does not specify one
+ */
+export function getBudgetExceededAction(): 'reject' | 'downgrade' {
+    return process.env['BUDGET_EXCEEDED_ACTION'] === 'reject' ? 'reject' : 'downgrade';
+}
+
 export const PRICING_CONSTANTS = {
     // Base pricing per minute (USD)
     BASE_RATE_WITH_LOGGING: 0.016,
@@ -104,14 +136,27 @@ export const PRICING_CONSTANTS = {
     ]
 };
 
+/**
+ * Billable features of a recognition request
+ */
+export interface PricedFeatures {
+    dataLogging: boolean;
+    diarization: boolean;
+    enhanced: boolean;
+    wordTimings: boolean;
+    premiumModel: boolean; // latest_long
+    channels?: number; // Channels recognized separately are billed as separate audio
+}
+
 export class CostCalculator {
     /**
-     * Calculate estimated cost for a speech-to-text request
+     * Calculate estimated cost for a speech-to-text request on a tier
      */
     static calculateCost(
         durationMinutes: number,
         tier: keyof typeof COST_OPTIMIZATION_TIERS,
-        monthlyUsage: number = 0
+        monthlyUsage: number = 0,
+        options: { wordTimings?: boolean } = {}
     ): {
         baseCost: number;
         premiumCost: number;
@@ -119,38 +164,56 @@ export class CostCalculator {
         breakdown: string[];
         tier: CostOptimizationTier;
     } {
-        const tierConfig = COST_OPTIMIZATION_TIERS[tier];
-        const baseRate = tierConfig.enableDataLogging
+        return {
+            ...this.calculateFeatureCost(durationMinutes, this.getTierFeatures(tier, options), monthlyUsage),
+            tier: COST_OPTIMIZATION_TIERS[tier]
+        };
+    }
+
+    /**
+     * Price a request from the features it uses. Tier previews, the budget
+     * guard and processing estimates all price through here.
+     */
+    static calculateFeatureCost(durationMinutes: number, features: PricedFeatures, monthlyUsage: number = 0): {
+        baseCost: number;
+        premiumCost: number;
+        totalCost: number;
+        breakdown: string[];
+    } {
+        const baseRate = features.dataLogging
             ? PRICING_CONSTANTS.BASE_RATE_WITH_LOGGING
             : PRICING_CONSTANTS.BASE_RATE_WITHOUT_LOGGING;
+        const channels = Math.max(1, features.channels || 1);
 
         // Apply volume discount
         const effectiveRate = this.getVolumeDiscountedRate(baseRate, monthlyUsage);
-        const baseCost = durationMinutes * effectiveRate;
+        const baseCost = durationMinutes * channels * effectiveRate;
 
         let premiumCost = 0;
-        const breakdown: string[] = [`Base: ${durationMinutes.toFixed(2)} min × $${effectiveRate.toFixed(4)} = $${baseCost.toFixed(4)}`];
+        const breakdown: string[] = [channels > 1
+            ? `Base: ${durationMinutes.toFixed(2)} min × ${channels} channels × $${effectiveRate.toFixed(4)} = $${baseCost.toFixed(4)}`
+            : `Base: ${durationMinutes.toFixed(2)} min × $${effectiveRate.toFixed(4)} = $${baseCost.toFixed(4)}`];
 
         // Calculate premium features
-        if (tierConfig.maxSpeakers > 2) {
+        if (features.diarization) {
             const diarizationCost = baseCost * PRICING_CONSTANTS.SPEAKER_DIARIZATION_PREMIUM;
             premiumCost += diarizationCost;
-            breakdown.push(`Speaker diarization (${tierConfig.maxSpeakers} speakers): +$${diarizationCost.toFixed(4)}`);
+            breakdown.push(`Speaker diarization: +$${diarizationCost.toFixed(4)}`);
         }
 
-        if (tierConfig.useEnhanced) {
+        if (features.enhanced) {
             const enhancedCost = baseCost * PRICING_CONSTANTS.ENHANCED_MODELS_PREMIUM;
             premiumCost += enhancedCost;
             breakdown.push(`Enhanced models: +$${enhancedCost.toFixed(4)}`);
         }
 
-        if (tierConfig.enableWordTimeOffsets) {
+        if (features.wordTimings) {
             const timestampCost = baseCost * PRICING_CONSTANTS.WORD_TIMESTAMPS_PREMIUM;
             premiumCost += timestampCost;
             breakdown.push(`Word timestamps: +$${timestampCost.toFixed(4)}`);
         }
 
-        if (tierConfig.model === 'latest_long') {
+        if (features.premiumModel) {
             const premiumModelCost = baseCost * PRICING_CONSTANTS.PREMIUM_MODEL_PREMIUM;
             premiumCost += premiumModelCost;
             breakdown.push(`Premium model: +$${premiumModelCost.toFixed(4)}`);
@@ -162,8 +225,40 @@ export class CostCalculator {
             baseCost: Math.round(baseCost * 10000) / 10000,
             premiumCost: Math.round(premiumCost * 10000) / 10000,
             totalCost: Math.round(totalCost * 10000) / 10000,
-            breakdown,
-            tier: tierConfig
+            breakdown
+        };
+    }
+
+    /**
+     * Features a run on the tier uses. Processing diarizes on every tier, so
+     * every tier is priced with diarization.
+     */
+    static getTierFeatures(
+        tier: keyof typeof COST_OPTIMIZATION_TIERS,
+        options: { wordTimings?: boolean } = {}
+    ): PricedFeatures {
+        const tierConfig = COST_OPTIMIZATION_TIERS[tier];
+
+        return {
+            dataLogging: tierConfig.enableDataLogging,
+            diarization: true,
+            enhanced: tierConfig.useEnhanced,
+            wordTimings: tierConfig.enableWordTimeOffsets || Boolean(options.wordTimings),
+            premiumModel: tierConfig.model === 'latest_long'
+        };
+    }
+
+    /**
+     * Features used by a recognition config
+     */
+    static getConfigFeatures(config: SpeechRecognitionConfig): PricedFeatures {
+        return {
+            dataLogging: config.costOptimization?.enableDataLogging !== false,
+            diarization: Boolean(config.diarizationConfig?.enableSpeakerDiarization),
+            enhanced: Boolean(config.useEnhanced),
+            wordTimings: Boolean(config.enableWordTimeOffsets),
+            premiumModel: config.model === 'latest_long',
+            channels: config.enableSeparateRecognitionPerChannel ? config.audioChannelCount || 1 : 1
         };
     }
 
@@ -180,22 +275,21 @@ export class CostCalculator {
     /**
      * Compare costs across different tiers
      */
-    static compareTiers(durationMinutes: number, monthlyUsage: number = 0): {
+    static compareTiers(durationMinutes: number, monthlyUsage: number = 0, options: { wordTimings?: boolean } = {}): {
         tier: string;
         cost: number;
         features: string[];
         savings: number;
     }[] {
-        const premiumCost = this.calculateCost(durationMinutes, 'PREMIUM', monthlyUsage).totalCost;
+        const premiumCost = this.calculateCost(durationMinutes, 'PREMIUM', monthlyUsage, options).totalCost;
 
         return Object.keys(COST_OPTIMIZATION_TIERS).map(tier => {
-            const calculation = this.calculateCost(durationMinutes, tier as any, monthlyUsage);
+            const calculation = this.calculateCost(durationMinutes, tier as any, monthlyUsage, options);
             const tierConfig = COST_OPTIMIZATION_TIERS[tier];
 
-            const features: string[] = [];
-            if (tierConfig.maxSpeakers > 2) features.push(`${tierConfig.maxSpeakers} speakers`);
+            const features: string[] = [`${tierConfig.maxSpeakers} speakers`];
             if (tierConfig.useEnhanced) features.push('Enhanced models');
-            if (tierConfig.enableWordTimeOffsets) features.push('Word timestamps');
+            if (tierConfig.enableWordTimeOffsets || options.wordTimings) features.push('Word timestamps');
             if (tierConfig.model === 'latest_long') features.push('Premium model');
             if (tierConfig.enableDataLogging) features.push('Data logging (cheaper)');
 
@@ -387,11 +481,11 @@ export class CostMonitor {
 // Export helper functions for easy integration
 export const CostOptimization = {
     getTier: (tierName: keyof typeof COST_OPTIMIZATION_TIERS) => COST_OPTIMIZATION_TIERS[tierName],
-    calculateCost: CostCalculator.calculateCost,
-    compareTiers: CostCalculator.compareTiers,
-    recommendTier: CostCalculator.recommendTier,
-    estimateMonthlyCost: CostCalculator.estimateMonthlyCost,
-    trackUsage: CostMonitor.trackUsage,
-    checkLimits: CostMonitor.checkCostLimits,
-    getRecommendations: CostMonitor.getOptimizationRecommendations
+    calculateCost: CostCalculator.calculateCost.bind(CostCalculator),
+    compareTiers: CostCalculator.compareTiers.bind(CostCalculator),
+    recommendTier: CostCalculator.recommendTier.bind(CostCalculator),
+    estimateMonthlyCost: CostCalculator.estimateMonthlyCost.bind(CostCalculator),
+    trackUsage: CostMonitor.trackUsage.bind(CostMonitor),
+    checkLimits: CostMonitor.checkCostLimits.bind(CostMonitor),
+    getRecommendations: CostMonitor.getOptimizationRecommendations.bind(CostMonitor)
 };
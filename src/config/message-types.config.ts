@@ -0,0 +1,154 @@
+// src/config/message-types.config.ts
+
+/**
+ * Message type classification rules. Phrases are matched case-insensitively at
+ * the start of a message; question marks are recognized in every language.
+ */
+
+export interface MessageTypeRules {
+    questionStarts: string[]; // Words that open a question
+    responseStarts: string[]; // Answers and acknowledgements
+    responsePhrases: string[]; // Opinion markers anywhere in the message
+    interruptionStarts: string[]; // Phrases that claim the floor ("hold on")
+    backchannels: string[]; // Listener feedback that does not take a turn
+}
+
+export interface MessageTypeThresholds {
+    minOverlapSeconds: number; // Overlap with the previous speaker that counts as talking over them
+    maxLatchGapSeconds: number; // Gap after an unfinished sentence that still counts as cutting in
+    maxBackchannelWords: number;
+}
+
+export const DEFAULT_MESSAGE_TYPE_THRESHOLDS: MessageTypeThresholds = {
+    minOverlapSeconds: 0.2,
+    maxLatchGapSeconds: 0.2,
+    maxBackchannelWords: 2
+};
+
+// Keyed by base language (BCP-47 primary subtag)
+export const DEFAULT_MESSAGE_TYPE_RULES: Record<string, MessageTypeRules> = {
+    en: {
+        questionStarts: [
+            'what', 'how', 'when', 'where', 'why', 'who', 'whom', 'whose', 'which',
+            'can', 'could', 'would', 'should', 'do', 'does', 'did', 'is', 'are', 'was',
+            'were', 'will', 'have', 'has', 'may', 'shall'
+        ],
+        responseStarts: [
+            'yes', 'yeah', 'yep', 'no', 'nope', 'sure', 'okay', 'ok', 'right', 'exactly',
+            'absolutely', 'of course', 'definitely', 'correct', 'not really'
+        ],
+        responsePhrases: ['i think', 'i believe', 'i would say', 'i guess'],
+        interruptionStarts: [
+            'wait', 'hold on', 'hang on', 'excuse me', 'sorry to interrupt', 'sorry, but',
+            'let me stop you', 'one second'
+        ],
+        backchannels: ['mm-hmm', 'uh-huh', 'mhm', 'yeah', 'right', 'okay', 'ok', 'i see', 'sure']
+    },
+    es: {
+        questionStarts: [
+            'qué', 'cómo', 'cuándo', 'dónde', 'por qué', 'quién', 'quiénes', 'cuál',
+            'cuáles', 'cuánto', 'cuánta', 'puede', 'puedes', 'podría', 'podrías'
+        ],
+        responseStarts: ['sí', 'no', 'claro', 'vale', 'de acuerdo', 'exacto', 'por supuesto', 'bueno'],
+        responsePhrases: ['creo que', 'pienso que', 'diría que'],
+        interruptionStarts: ['espera', 'espere', 'un momento', 'perdona', 'perdone', 'disculpa', 'disculpe'],
+        backchannels: ['ajá', 'sí', 'vale', 'claro', 'ya', 'mmm']
+    },
+    fr: {
+        questionStarts: [
+            'qu\'est-ce', 'quoi', 'comment', 'quand', 'où', 'pourquoi', 'qui', 'quel',
+            'quelle', 'quels', 'quelles', 'combien', 'est-ce', 'pouvez-vous', 'peux-tu', 'avez-vous'
+        ],
+        responseStarts: ['oui', 'non', 'si', 'bien sûr', 'd\'accord', 'exactement', 'voilà', 'ok'],
+        responsePhrases: ['je pense', 'je crois', 'à mon avis'],
+        interruptionStarts: ['attendez', 'attends', 'excusez-moi', 'pardon', 'un instant', 'une seconde'],
+        backchannels: ['oui', 'ouais', 'hum', 'd\'accord', 'ok', 'je vois']
+    },
+    de: {
+        questionStarts: [
+            'was', 'wie', 'wann', 'wo', 'warum', 'wieso', 'weshalb', 'wer', 'wen', 'wem',
+            'welche', 'welcher', 'welches', 'können', 'kannst', 'könnten', 'haben', 'hast',
+            'ist', 'sind', 'gibt', 'wird', 'würden'
+        ],
+        responseStarts: ['ja', 'nein', 'doch', 'genau', 'klar', 'natürlich', 'stimmt', 'okay', 'gut'],
+        responsePhrases: ['ich glaube', 'ich denke', 'ich würde sagen', 'meiner meinung nach'],
+        interruptionStarts: ['warte', 'warten sie', 'moment', 'entschuldigung', 'sekunde'],
+        backchannels: ['ja', 'mhm', 'genau', 'okay', 'aha', 'stimmt']
+    },
+    pt: {
+        questionStarts: [
+            'o que', 'como', 'quando', 'onde', 'por que', 'quem', 'qual', 'quais',
+            'quanto', 'quanta', 'pode', 'podes', 'poderia'
+        ],
+        responseStarts: ['sim', 'não', 'claro', 'certo', 'exato', 'com certeza', 'tá', 'ok'],
+        responsePhrases: ['eu acho', 'acho que', 'eu acredito'],
+        interruptionStarts: ['espera', 'espere', 'um momento', 'desculpa', 'desculpe', 'com licença'],
+        backchannels: ['sim', 'uhum', 'certo', 'tá', 'ok', 'entendi']
+    },
+    ru: {
+        questionStarts: [
+            'что', 'как', 'когда', 'где', 'куда', 'откуда', 'почему', 'зачем', 'кто', 'какой',
+            'какая', 'какое', 'какие', 'сколько', 'можно', 'можете', 'можешь', 'разве', 'неужели'
+        ],
+        responseStarts: ['да', 'нет', 'конечно', 'хорошо', 'ладно', 'точно', 'именно', 'верно', 'согласен', 'согласна'],
+        responsePhrases: ['я думаю', 'я считаю', 'мне кажется', 'по-моему'],
+        interruptionStarts: ['подождите', 'подожди', 'постойте', 'погодите', 'секунду', 'минуточку', 'извините', 'простите'],
+        backchannels: ['ага', 'угу', 'да', 'ясно', 'понятно', 'ну да']
+    },
+    // Armenian marks a question with "՞" on the stressed word; it is removed before
+    // matching, so these are written without it
+    hy: {
+        questionStarts: [
+            'ինչ', 'ինչու', 'ինչպես', 'երբ', 'որտեղ', 'ով', 'ում', 'որը', 'որքան',
+            'քանի', 'կարող եք', 'կարող ես'
+        ],
+        responseStarts: ['այո', 'ոչ', 'հա', 'չէ', 'իհարկե', 'լավ', 'ճիշտ է', 'համաձայն եմ'],
+        responsePhrases: ['կարծում եմ', 'ինձ թվում է', 'իմ կարծիքով'],
+        interruptionStarts: ['սպասեք', 'սպասիր', 'մի րոպե', 'մի վայրկյան', 'ներեցեք', 'կներեք'],
+        backchannels: ['հա', 'այո', 'պարզ է', 'լավ', 'հասկանալի է']
+    }
+};
+
+const EMPTY_RULES: MessageTypeRules = {
+    questionStarts: [],
+    responseStarts: [],
+    responsePhrases: [],
+    interruptionStarts: [],
+    backchannels: []
+};
+
+/**
+ * Rules per language. MESSAGE_TYPE_RULES may hold a JSON object keyed by base
+ * language; each entry replaces the lists it names and adds new languages.
+ */
+export function getMessageTypeRuleSet(): Record<string, MessageTypeRules> {
+    if (!process.env['MESSAGE_TYPE_RULES']) {
+        return DEFAULT_MESSAGE_TYPE_RULES;
+    }
+
+    let overrides: Record<string, Partial<MessageTypeRules>>;
+    try {
+        overrides = JSON.parse(process.env['MESSAGE_TYPE_RULES']);
+    } catch {
+        throw new Error('MESSAGE_TYPE_RULES must be a JSON object of message type rules keyed by language');
+    }
+
+    const rules = {...DEFAULT_MESSAGE_TYPE_RULES};
+    for (const [language, override] of Object.entries(overrides)) {
+        rules[language.toLowerCase()] = {...EMPTY_RULES, ...rules[language.toLowerCase()], ...override};
+    }
+
+    return rules;
+}
+
+/**
+ * Rules for a message language; languages without rules use English
+ */
+export function getMessageTypeRules(
+    languageCode?: string,
+    rules: Record<string, MessageTypeRules> = getMessageTypeRuleSet()
+): MessageTypeRules {
+    const base = (languageCode || '').split('-')[0].toLowerCase();
+
+    return rules[base] || rules['en'] || DEFAULT_MESSAGE_TYPE_RULES['en'];
+}
@@ -0,0 +1,204 @@
+// src/config/processing.config.ts
+
+import type {AppProcessingConfig, QueueConfig, RetryPolicyConfig} from '../interfaces/config.interface';
+import type {ParsingConfig, ProcessingStage} from '../interfaces/conversation.interface';
+
+/**
+ * Processing queue configuration
+ */
+
+export type ProcessingQueueConfig = Pick<AppProcessingConfig, 'maxConcurrentJobs' | 'queueConfig'>;
+
+export const DEFAULT_PROCESSING_CONFIG: ProcessingQueueConfig = {
+    maxConcurrentJobs: 2, // Speech operations are long-running; keep the pool small
+    queueConfig: {
+        provider: 'memory'
+    }
+};
+
+/**
+ * Read processing configuration from environment variables.
+ * Evaluated lazily so values loaded by dotenv at startup are picked up.
+ */
+export function getProcessingConfig(): ProcessingQueueConfig {
+    const maxConcurrentJobs = parseInt(process.env['MAX_CONCURRENT_JOBS'] || '', 10);
+    const provider = process.env['QUEUE_PROVIDER'] as QueueConfig['provider'] | undefined;
+
+    return {
+        maxConcurrentJobs: maxConcurrentJobs > 0 ? maxConcurrentJobs : DEFAULT_PROCESSING_CONFIG.maxConcurrentJobs,
+        queueConfig: {
+            ...DEFAULT_PROCESSING_CONFIG.queueConfig,
+            ...(provider && {provider})
+        }
+    };
+}
+
+/**
+ * Retry policies per pipeline stage. Stages without an entry are not retried.
+ * Only failures classified as retryable (transient Google/Twilio/network errors) are retried.
+ */
+export const STAGE_RETRY_POLICIES: Partial<Record<ProcessingStage, RetryPolicyConfig>> = {
+    download: {
+        maxRetries: 3,
+        initialDelayMs: 1000,
+        backoffMultiplier: 2,
+        maxDelayMs: 10000
+    },
+    transcription: {
+        maxRetries: 2,
+        initialDelayMs: 5000,
+        backoffMultiplier: 3,
+        maxDelayMs: 60000
+    },
+    persistence: {
+        maxRetries: 2,
+        initialDelayMs: 500,
+        backoffMultiplier: 2,
+        maxDelayMs: 5000
+    }
+};
+
+const NO_RETRY_POLICY: RetryPolicyConfig = {
+    maxRetries: 0,
+    initialDelayMs: 0,
+    backoffMultiplier: 1,
+    maxDelayMs: 0
+};
+
+/**
+ * Get retry policy for a stage. PROCESSING_MAX_RETRIES caps retries for all stages.
+ */
+export function getStageRetryPolicy(stage: ProcessingStage): RetryPolicyConfig {
+    const policy = STAGE_RETRY_POLICIES[stage] || NO_RETRY_POLICY;
+    const maxRetriesCap = parseInt(process.env['PROCESSING_MAX_RETRIES'] || '', 10);
+
+    return maxRetriesCap >= 0
+        ? {...policy, maxRetries: Math.min(policy.maxRetries, maxRetriesCap)}
+        : policy;
+}
+
+/**
+ * Recording sweeper configuration
+ */
+
+export interface SweeperConfig {
+    enabled: boolean;
+    intervalMs: number; // How often each instance attempts a sweep
+    leaseTtlMs: number; // Shorter than the interval so exactly one instance sweeps per tick
+    heartbeatIntervalMs: number; // How often running jobs refresh their heartbeat
+    heartbeatTimeoutMs: number; // Processing recordings without a heartbeat for this long are stuck
+    pendingMinAgeMs: number; // Give the webhook a chance to queue new recordings itself
+    maxRecoveries: number; // Stuck jobs are requeued this many times, then failed
+    batchSize: number;
+}
+
+export const DEFAULT_SWEEPER_CONFIG: SweeperConfig = {
+    enabled: true,
+    intervalMs: 60 * 1000,
+    leaseTtlMs: 50 * 1000,
+    heartbeatIntervalMs: 30 * 1000,
+    heartbeatTimeoutMs: 5 * 60 * 1000,
+    pendingMinAgeMs: 2 * 60 * 1000,
+    maxRecoveries: 2,
+    batchSize: 20
+};
+
+export function getSweeperConfig(): SweeperConfig {
+    const intervalMs = parseInt(process.env['SWEEPER_INTERVAL_MS'] || '', 10);
+    const heartbeatTimeoutMs = parseInt(process.env['PROCESSING_HEARTBEAT_TIMEOUT_MS'] || '', 10);
+
+    const config: SweeperConfig = {
+        ...DEFAULT_SWEEPER_CONFIG,
+        enabled: process.env['SWEEPER_ENABLED'] !== 'false'
+    };
+
+    if (intervalMs > 0) {
+        config.intervalMs = intervalMs;
+        config.leaseTtlMs = Math.floor(intervalMs * 5 / 6);
+    }
+
+    if (heartbeatTimeoutMs > 0) {
+        config.heartbeatTimeoutMs = heartbeatTimeoutMs;
+    }
+
+    return config;
+}
+
+/**
+ * Long audio chunking configuration
+ */
+
+export interface ChunkingConfig {
+    windowSeconds: number; // Target window length
+    overlapSeconds: number; // Audio shared by neighbouring windows, used to line up speakers
+    maxInlineBytes: number; // Google rejects inline audio content above 10 MB
+    concurrency: number; // Windows transcribed at the same time
+}
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+    windowSeconds: 5 * 60,
+    overlapSeconds: 15,
+    maxInlineBytes: 9.5 * 1024 * 1024,
+    concurrency: 3
+};
+
+export function getChunkingConfig(): ChunkingConfig {
+    const windowSeconds = parseInt(process.env['AUDIO_CHUNK_SECONDS'] || '', 10);
+    const overlapSeconds = parseInt(process.env['AUDIO_CHUNK_OVERLAP_SECONDS'] || '', 10);
+    const concurrency = parseInt(process.env['AUDIO_CHUNK_CONCURRENCY'] || '', 10);
+
+    const config: ChunkingConfig = {
+        ...DEFAULT_CHUNKING_CONFIG,
+        ...(windowSeconds > 0 && {windowSeconds}),
+        ...(overlapSeconds >= 0 && {overlapSeconds}),
+        ...(concurrency > 0 && {concurrency})
+    };
+
+    // Windows must advance
+    config.overlapSeconds = Math.min(config.overlapSeconds, Math.floor(config.windowSeconds / 2));
+    return config;
+}
+
+/**
+ * Message segmentation configuration
+ */
+
+export interface SegmentationConfig {
+    maxPauseSeconds: number; // A longer silence within one speaker's turn starts a new message
+    maxMessageWords: number;
+    maxMessageSeconds: number;
+    minimumMessageLength: number; // Words; shorter fragments merge into a neighbouring message of the same speaker
+    groupSimilarMessages: boolean; // Group consecutive sentences of a speaker; off gives one message per sentence
+    confidenceThreshold: number; // Messages with a lower mean word confidence are dropped
+}
+
+export const DEFAULT_SEGMENTATION_CONFIG: SegmentationConfig = {
+    maxPauseSeconds: 1.5,
+    maxMessageWords: 60,
+    maxMessageSeconds: 30,
+    minimumMessageLength: 3,
+    groupSimilarMessages: true,
+    confidenceThreshold: 0
+};
+
+/**
+ * Segmentation settings: environment defaults, overridden by the parsing
+ * config stored with a recording
+ */
+export function getSegmentationConfig(parsing?: Partial<ParsingConfig>): SegmentationConfig {
+    const maxPauseSeconds = parseFloat(process.env['MESSAGE_MAX_PAUSE_SECONDS'] || '');
+    const maxMessageWords = parseInt(process.env['MESSAGE_MAX_WORDS'] || '', 10);
+    const maxMessageSeconds = parseInt(process.env['MESSAGE_MAX_SECONDS'] || '', 10);
+
+    return {
+        ...DEFAULT_SEGMENTATION_CONFIG,
+        ...(maxPauseSeconds > 0 && {maxPauseSeconds}),
+        ...(maxMessageWords > 0 && {maxMessageWords}),
+        ...(maxMessageSeconds > 0 && {maxMessageSeconds}),
+        ...(parsing?.maxPauseSeconds !== undefined && {maxPauseSeconds: parsing.maxPauseSeconds}),
+        ...(parsing?.maxMessageWords !== undefined && {maxMessageWords: parsing.maxMessageWords}),
+        ...(parsing?.minimumMessageLength !== undefined && {minimumMessageLength: parsing.minimumMessageLength}),
+        ...(parsing?.groupSimilarMessages !== undefined && {groupSimilarMessages: parsing.groupSimilarMessages}),
+        ...(parsing?.confidenceThreshold !== undefined && {confidenceThreshold: parsing.confidenceThreshold})
+    };
+}
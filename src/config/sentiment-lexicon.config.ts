@@ -0,0 +1,160 @@
+// src/config/sentiment-lexicon.config.ts
+
+import type {EmotionalTone} from '../interfaces/conversation.interface';
+
+/**
+ * Word lists for the lexicon sentiment analyzer. Valences run from -3 (very
+ * negative) to 3 (very positive); words are lowercase and matched whole.
+ * Tone cues may be phrases and are matched against the whole message.
+ */
+
+export interface SentimentLexicon {
+    valence: Record<string, number>;
+    negators: string[]; // Flip the valence of the next few words
+    intensifiers: Record<string, number>; // Multiply the valence of the next word
+    contrast: string[]; // Words after these outweigh the words before ("but")
+    tones: Partial<Record<EmotionalTone, string[]>>;
+}
+
+// Keyed by base language (BCP-47 primary subtag)
+export const SENTIMENT_LEXICONS: Record<string, SentimentLexicon> = {
+    en: {
+        valence: {
+            // Positive
+            'good': 2, 'great': 3, 'excellent': 3, 'amazing': 3, 'awesome': 3, 'fantastic': 3,
+            'wonderful': 3, 'perfect': 3, 'love': 3, 'loved': 3, 'lovely': 3, 'liked': 2,
+            'nice': 2, 'happy': 2, 'glad': 2, 'pleased': 2, 'thanks': 2, 'thank': 2,
+            'appreciate': 2, 'appreciated': 2, 'helpful': 2, 'easy': 1, 'fine': 1, 'better': 2,
+            'best': 3, 'fixed': 2, 'resolved': 2, 'works': 1, 'working': 1, 'success': 2,
+            'successful': 2, 'enjoy': 2, 'enjoyed': 2, 'excited': 3, 'fun': 2, 'beautiful': 3,
+            'brilliant': 3, 'super': 2, 'cool': 1, 'sure': 1, 'agree': 1, 'correct': 1,
+            'fair': 1, 'welcome': 2, 'recommend': 2, 'satisfied': 2, 'impressive': 3, 'smooth': 1,
+            'quick': 1, 'fast': 1, 'reliable': 2, 'friendly': 2, 'congratulations': 3,
+            // Negative
+            'bad': -2, 'terrible': -3, 'awful': -3, 'horrible': -3, 'worst': -3, 'worse': -2,
+            'hate': -3, 'hated': -3, 'angry': -3, 'annoyed': -2, 'annoying': -2, 'upset': -2,
+            'frustrated': -2, 'frustrating': -2, 'disappointed': -2, 'disappointing': -2,
+            'sad': -2, 'unhappy': -2, 'problem': -1, 'problems': -1, 'issue': -1, 'issues': -1,
+            'broken': -2, 'broke': -2, 'fail': -2, 'failed': -2, 'failing': -2, 'failure': -2,
+            'error': -1, 'errors': -1, 'wrong': -2, 'slow': -1, 'difficult': -1, 'hard': -1,
+            'confusing': -2, 'confused': -1, 'ridiculous': -3, 'unacceptable': -3, 'useless': -3,
+            'waste': -2, 'wasted': -2, 'worried': -2, 'worry': -2, 'afraid': -2, 'scared': -2,
+            'unfortunately': -1, 'complaint': -2, 'cancel': -1, 'refund': -1,
+            'late': -1, 'delay': -1, 'delayed': -1, 'dropping': -1, 'crash': -2, 'crashed': -2,
+            'stupid': -3, 'rude': -3, 'painful': -2, 'pain': -2, 'expensive': -1, 'lost': -2
+        },
+        negators: [
+            'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without',
+            "don't", "doesn't", "didn't", "isn't", "aren't", "wasn't", "weren't", "won't",
+            "wouldn't", "can't", "cannot", "couldn't", "shouldn't", "haven't", "hasn't", "hadn't"
+        ],
+        intensifiers: {
+            'very': 1.3, 'really': 1.3, 'so': 1.2, 'extremely': 1.5, 'incredibly': 1.5,
+            'totally': 1.3, 'absolutely': 1.4, 'completely': 1.3, 'super': 1.3, 'quite': 1.1,
+            'slightly': 0.6, 'somewhat': 0.7, 'barely': 0.5
+        },
+        contrast: ['but', 'however', 'although', 'though'],
+        tones: {
+            excited: ['amazing', 'awesome', 'fantastic', "can't wait", 'so excited', 'wow', 'incredible'],
+            frustrated: [
+                'again', 'still not', 'still doesn\'t', 'ridiculous', 'unacceptable', 'fed up',
+                'how many times', 'every time', 'sick of', 'waste of time'
+            ],
+            concerned: ['worried', 'concerned', 'afraid', 'not sure', 'what if', 'risk', 'nervous'],
+            formal: [
+                'please', 'kindly', 'regarding', 'sir', 'madam', 'would you be able', 'i would like',
+                'thank you for', 'sincerely', 'appreciate your'
+            ]
+        }
+    },
+    es: {
+        valence: {
+            'bueno': 2, 'buena': 2, 'bien': 1, 'excelente': 3, 'genial': 3, 'perfecto': 3,
+            'gracias': 2, 'encanta': 3, 'feliz': 2, 'contento': 2, 'contenta': 2, 'fácil': 1,
+            'mejor': 2, 'maravilloso': 3, 'amable': 2, 'resuelto': 2, 'funciona': 1,
+            'malo': -2, 'mala': -2, 'mal': -2, 'terrible': -3, 'horrible': -3, 'peor': -2,
+            'odio': -3, 'enojado': -3, 'molesto': -2, 'frustrado': -2, 'problema': -1,
+            'roto': -2, 'error': -1, 'lento': -1, 'difícil': -1, 'preocupado': -2,
+            'inaceptable': -3, 'decepcionado': -2, 'triste': -2, 'lamentablemente': -1
+        },
+        negators: ['no', 'nunca', 'jamás', 'nada', 'nadie', 'ni', 'sin', 'tampoco'],
+        intensifiers: {'muy': 1.3, 'realmente': 1.3, 'súper': 1.3, 'totalmente': 1.3, 'poco': 0.6},
+        contrast: ['pero', 'aunque', 'sin embargo'],
+        tones: {
+            excited: ['increíble', 'genial', 'qué bien'],
+            frustrated: ['otra vez', 'todavía no', 'inaceptable', 'harto', 'harta'],
+            concerned: ['preocupado', 'preocupada', 'miedo', 'no estoy seguro'],
+            formal: ['por favor', 'usted', 'le agradezco', 'atentamente']
+        }
+    },
+    fr: {
+        valence: {
+            'bon': 2, 'bonne': 2, 'bien': 1, 'excellent': 3, 'génial': 3, 'parfait': 3,
+            'merci': 2, 'adore': 3, 'heureux': 2, 'content': 2, 'contente': 2, 'facile': 1,
+            'meilleur': 2, 'merveilleux': 3, 'gentil': 2, 'résolu': 2, 'fonctionne': 1,
+            'mauvais': -2, 'mauvaise': -2, 'mal': -2, 'terrible': -3, 'horrible': -3, 'pire': -2,
+            'déteste': -3, 'fâché': -3, 'énervé': -2, 'frustré': -2, 'problème': -1,
+            'cassé': -2, 'erreur': -1, 'lent': -1, 'difficile': -1, 'inquiet': -2,
+            'inacceptable': -3, 'déçu': -2, 'triste': -2, 'malheureusement': -1
+        },
+        negators: ['ne', 'pas', 'jamais', 'rien', 'personne', 'aucun', 'aucune', 'sans', 'ni'],
+        intensifiers: {'très': 1.3, 'vraiment': 1.3, 'trop': 1.2, 'totalement': 1.3, 'peu': 0.6},
+        contrast: ['mais', 'cependant', 'pourtant'],
+        tones: {
+            excited: ['incroyable', 'génial', 'trop bien'],
+            frustrated: ['encore', 'toujours pas', 'inacceptable', 'marre'],
+            concerned: ['inquiet', 'inquiète', 'peur', 'pas sûr'],
+            formal: ['s\'il vous plaît', 'je vous remercie', 'cordialement', 'monsieur', 'madame']
+        }
+    },
+    de: {
+        valence: {
+            'gut': 2, 'toll': 3, 'super': 3, 'ausgezeichnet': 3, 'perfekt': 3, 'danke': 2,
+            'liebe': 3, 'glücklich': 2, 'froh': 2, 'zufrieden': 2, 'einfach': 1, 'besser': 2,
+            'wunderbar': 3, 'freundlich': 2, 'gelöst': 2, 'funktioniert': 1,
+            'schlecht': -2, 'schrecklich': -3, 'furchtbar': -3, 'schlimmer': -2, 'hasse': -3,
+            'wütend': -3, 'ärgerlich': -2, 'frustriert': -2, 'problem': -1, 'kaputt': -2,
+            'fehler': -1, 'langsam': -1, 'schwierig': -1, 'besorgt': -2, 'inakzeptabel': -3,
+            'enttäuscht': -2, 'traurig': -2, 'leider': -1
+        },
+        negators: ['nicht', 'kein', 'keine', 'keinen', 'nie', 'niemals', 'nichts', 'niemand', 'ohne'],
+        intensifiers: {'sehr': 1.3, 'wirklich': 1.3, 'total': 1.3, 'extrem': 1.5, 'etwas': 0.7},
+        contrast: ['aber', 'jedoch', 'obwohl'],
+        tones: {
+            excited: ['wahnsinn', 'fantastisch', 'super'],
+            frustrated: ['schon wieder', 'immer noch nicht', 'inakzeptabel', 'satt'],
+            concerned: ['besorgt', 'angst', 'nicht sicher'],
+            formal: ['bitte', 'vielen dank', 'mit freundlichen grüßen', 'sehr geehrte']
+        }
+    },
+    pt: {
+        valence: {
+            'bom': 2, 'boa': 2, 'bem': 1, 'excelente': 3, 'ótimo': 3, 'ótima': 3, 'perfeito': 3,
+            'obrigado': 2, 'obrigada': 2, 'adoro': 3, 'feliz': 2, 'contente': 2, 'fácil': 1,
+            'melhor': 2, 'maravilhoso': 3, 'gentil': 2, 'resolvido': 2, 'funciona': 1,
+            'ruim': -2, 'mau': -2, 'mal': -2, 'terrível': -3, 'horrível': -3, 'pior': -2,
+            'odeio': -3, 'irritado': -2, 'chateado': -2, 'frustrado': -2, 'problema': -1,
+            'quebrado': -2, 'erro': -1, 'lento': -1, 'difícil': -1, 'preocupado': -2,
+            'inaceitável': -3, 'decepcionado': -2, 'triste': -2, 'infelizmente': -1
+        },
+        negators: ['não', 'nunca', 'jamais', 'nada', 'ninguém', 'nem', 'sem'],
+        intensifiers: {'muito': 1.3, 'realmente': 1.3, 'super': 1.3, 'totalmente': 1.3, 'pouco': 0.6},
+        contrast: ['mas', 'porém', 'embora', 'contudo'],
+        tones: {
+            excited: ['incrível', 'demais', 'que legal'],
+            frustrated: ['de novo', 'ainda não', 'inaceitável', 'cansado de'],
+            concerned: ['preocupado', 'preocupada', 'medo', 'não tenho certeza'],
+            formal: ['por favor', 'senhor', 'senhora', 'agradeço', 'atenciosamente']
+        }
+    }
+};
+
+/**
+ * Lexicon for a message language. Messages without a language use English;
+ * languages without a lexicon (e.g. Russian, Armenian) have none, since
+ * English word lists would score them as neutral.
+ */
+export function getSentimentLexicon(languageCode?: string): SentimentLexicon | undefined {
+    const base = (languageCode || 'en').split('-')[0].toLowerCase();
+    return Object.prototype.hasOwnProperty.call(SENTIMENT_LEXICONS, base) ? SENTIMENT_LEXICONS[base] : undefined;
+}
@@ -0,0 +1,41 @@
+// src/config/sentiment.config.ts
+
+import type {SentimentAnalyzerName} from '../interfaces/sentiment.interface';
+
+/**
+ * Sentiment analysis configuration
+ */
+
+export interface SentimentConfig {
+    analyzer: SentimentAnalyzerName;
+    neutralThreshold: number; // Scores within +/- this are neutral
+    timelineWindowSeconds: number; // Width of a sentiment-over-time point
+    maxTimelinePoints: number; // Long calls get wider windows
+}
+
+export const SENTIMENT_ANALYZERS: SentimentAnalyzerName[] = ['lexicon', 'google', 'openai'];
+
+export const DEFAULT_SENTIMENT_CONFIG: SentimentConfig = {
+    analyzer: 'lexicon',
+    neutralThreshold: 0.05,
+    timelineWindowSeconds: 30,
+    maxTimelinePoints: 60
+};
+
+/**
+ * Read sentiment configuration from environment variables
+ */
+export function getSentimentConfig(): SentimentConfig {
+    const analyzer = process.env['SENTIMENT_ANALYZER'] as SentimentAnalyzerName | undefined;
+    const timelineWindowSeconds = parseInt(process.env['SENTIMENT_TIMELINE_WINDOW_SECONDS'] || '', 10);
+
+    if (analyzer && !SENTIMENT_ANALYZERS.includes(analyzer)) {
+        throw new Error(`SENTIMENT_ANALYZER must be one of ${SENTIMENT_ANALYZERS.join(', ')}`);
+    }
+
+    return {
+        ...DEFAULT_SENTIMENT_CONFIG,
+        ...(analyzer && {analyzer}),
+        ...(timelineWindowSeconds > 0 && {timelineWindowSeconds})
+    };
+}
@@ -0,0 +1,88 @@
+// src/config/speech-provider.config.ts
+
+import type {SpeechProvider} from '../interfaces/config.interface';
+import type {User} from '../interfaces/user.interface';
+
+/**
+ * Speech-to-text provider selection
+ */
+
+export type SubscriptionPlan = User['subscription']['plan'];
+
+export interface SpeechProviderSelection {
+    defaultProvider: SpeechProvider;
+    planProviders: Partial<Record<SubscriptionPlan, SpeechProvider>>; // Overrides the default per plan
+}
+
+export const SPEECH_PROVIDERS: SpeechProvider[] = ['google', 'aws', 'azure', 'openai', 'fixture'];
+
+export const DEFAULT_SPEECH_PROVIDER_SELECTION: SpeechProviderSelection = {
+    defaultProvider: 'google',
+    planProviders: {}
+};
+
+/**
+ * Read provider selection from environment variables. SPEECH_PROVIDER sets the
+ * default; SPEECH_PROVIDER_BY_PLAN overrides it per plan ("basic:google,enterprise:azure").
+ */
+export function getSpeechProviderSelection(): SpeechProviderSelection {
+    const defaultProvider = process.env['SPEECH_PROVIDER'] as SpeechProvider | undefined;
+    const planProviders: SpeechProviderSelection['planProviders'] = {};
+
+    for (const entry of (process.env['SPEECH_PROVIDER_BY_PLAN'] || '').split(',')) {
+        const [plan, provider] = entry.split(':').map(part => part.trim());
+        if (!plan || !provider) continue;
+
+        if (!SPEECH_PROVIDERS.includes(provider as SpeechProvider)) {
+            throw new Error(`SPEECH_PROVIDER_BY_PLAN has unknown provider "${provider}" for plan "${plan}"`);
+        }
+        planProviders[plan as SubscriptionPlan] = provider as SpeechProvider;
+    }
+
+    if (defaultProvider && !SPEECH_PROVIDERS.includes(defaultProvider)) {
+        throw new Error(`SPEECH_PROVIDER must be one of ${SPEECH_PROVIDERS.join(', ')}`);
+    }
+
+    return {
+        defaultProvider: defaultProvider || DEFAULT_SPEECH_PROVIDER_SELECTION.defaultProvider,
+        planProviders
+    };
+}
+
+/**
+ * Fixture provider: replays recognition responses saved as JSON files, or
+ * captures them from a real provider when credentials are available
+ */
+
+export type SpeechFixtureMode = 'replay' | 'capture';
+
+export interface SpeechFixtureConfig {
+    mode: SpeechFixtureMode;
+    directory: string;
+    captureProvider: SpeechProvider; // Real provider recorded in capture mode
+}
+
+export const DEFAULT_SPEECH_FIXTURE_CONFIG: SpeechFixtureConfig = {
+    mode: 'replay',
+    directory: 'fixtures/speech',
+    captureProvider: 'google'
+};
+
+export function getSpeechFixtureConfig(): SpeechFixtureConfig {
+    const mode = process.env['SPEECH_FIXTURE_MODE'];
+    const captureProvider = process.env['SPEECH_FIXTURE_CAPTURE_PROVIDER'] as SpeechProvider | undefined;
+
+    if (mode && mode !== 'replay' && mode !== 'capture') {
+        throw new Error('SPEECH_FIXTURE_MODE must be replay or capture');
+    }
+
+    if (captureProvider && (!SPEECH_PROVIDERS.includes(captureProvider) || captureProvider === 'fixture')) {
+        throw new Error('SPEECH_FIXTURE_CAPTURE_PROVIDER must be a real speech provider');
+    }
+
+    return {
+        mode: (mode as SpeechFixtureMode) || DEFAULT_SPEECH_FIXTURE_CONFIG.mode,
+        directory: process.env['SPEECH_FIXTURES_DIR'] || DEFAULT_SPEECH_FIXTURE_CONFIG.directory,
+        captureProvider: captureProvider || DEFAULT_SPEECH_FIXTURE_CONFIG.captureProvider
+    };
+}
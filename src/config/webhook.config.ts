@@ -0,0 +1,56 @@
+// src/config/webhook.config.ts
+
+import type {AppWebhookConfig, AppWebhookEndpoint} from '../interfaces/config.interface';
+
+/**
+ * Outbound webhook configuration
+ */
+
+export const DEFAULT_WEBHOOK_CONFIG: AppWebhookConfig = {
+    enabled: true,
+    endpoints: [],
+    retryPolicy: {
+        maxRetries: 5,
+        backoffMultiplier: 2,
+        initialDelay: 1000,
+        maxDelay: 5 * 60 * 1000
+    },
+    security: {
+        signRequests: true,
+        algorithm: 'sha256'
+    }
+};
+
+// Partners get this long to respond before the attempt counts as failed
+export const WEBHOOK_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Read webhook configuration from environment variables.
+ * WEBHOOK_ENDPOINTS may hold a JSON array of static endpoints that are
+ * signed with WEBHOOK_SIGNING_SECRET; API-registered endpoints use their own secret.
+ */
+export function getWebhookConfig(): AppWebhookConfig {
+    const maxRetries = parseInt(process.env['WEBHOOK_MAX_RETRIES'] || '', 10);
+    let endpoints: AppWebhookEndpoint[] = [];
+
+    if (process.env['WEBHOOK_ENDPOINTS']) {
+        try {
+            endpoints = JSON.parse(process.env['WEBHOOK_ENDPOINTS']);
+        } catch {
+            throw new Error('WEBHOOK_ENDPOINTS must be a JSON array of webhook endpoints');
+        }
+    }
+
+    return {
+        enabled: process.env['WEBHOOKS_ENABLED'] !== 'false',
+        endpoints,
+        retryPolicy: {
+            ...DEFAULT_WEBHOOK_CONFIG.retryPolicy,
+            ...(maxRetries >= 0 && {maxRetries})
+        },
+        security: {
+            ...DEFAULT_WEBHOOK_CONFIG.security,
+            secret: process.env['WEBHOOK_SIGNING_SECRET']
+        }
+    };
+}
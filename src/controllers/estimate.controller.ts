@@ -0,0 +1,181 @@
+// src/controllers/estimate.controller.ts
+
+import {Request, Response} from 'express';
+import {costEstimateService} from '../services/cost-estimate.service';
+import {recordingRepository} from '../repositories/recording.repository';
+import {userRepository} from '../repositories/user.repository';
+import {DEFAULT_OPTIMIZATION_SETTINGS} from '../config/cost-optimization.config';
+import {logger} from '../utils/logger.util';
+import {v4 as uuidv4} from 'uuid';
+import type {APIResponse} from '../interfaces/api.interface';
+import type {EstimateRequirements} from '../interfaces/processing.interface';
+
+/**
+ * Estimate processing cost for an existing recording
+ */
+export const getRecordingEstimate = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const {requirements, errors} = parseRequirements(req.query);
+        if (errors.length > 0) {
+            sendValidationError(res, errors);
+            return;
+        }
+
+        // Recordings uploaded with word timings are priced with them unless the query says otherwise
+        requirements.wordTimings = requirements.wordTimings ?? recording.metadata.processingConfig?.output?.includeWordTimings;
+
+        const user = await userRepository.findByUid(recording.userId);
+        const estimate = costEstimateService.estimate(recording.recordingDuration || 0, user, requirements);
+
+        res.json({
+            success: true,
+            data: {...estimate, recordingId},
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error estimating recording cost:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to estimate recording cost',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Estimate processing cost before upload from an audio duration
+ */
+export const getDurationEstimate = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const duration = Number(req.query['durationSeconds'] ?? req.query['duration']);
+        const {requirements, errors} = parseRequirements(req.query);
+
+        if (!Number.isFinite(duration) || duration <= 0) {
+            errors.unshift('durationSeconds must be a positive number');
+        } else if (duration > DEFAULT_OPTIMIZATION_SETTINGS.maxAudioDuration) {
+            errors.unshift(`durationSeconds cannot exceed ${DEFAULT_OPTIMIZATION_SETTINGS.maxAudioDuration}`);
+        }
+
+        if (errors.length > 0) {
+            sendValidationError(res, errors);
+            return;
+        }
+
+        const userId = req.query['userId'] as string | undefined;
+        const user = userId ? await userRepository.findByUid(userId) : null;
+        if (userId && !user) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'USER_NOT_FOUND',
+                    message: 'User not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const estimate = costEstimateService.estimate(duration, user, requirements);
+
+        res.json({
+            success: true,
+            data: estimate,
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error estimating cost by duration:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to estimate cost',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+function parseRequirements(query: Request['query']): { requirements: EstimateRequirements; errors: string[] } {
+    const requirements: EstimateRequirements = {};
+    const errors: string[] = [];
+
+    if (query['maxBudget'] !== undefined) {
+        const maxBudget = Number(query['maxBudget']);
+        if (!Number.isFinite(maxBudget) || maxBudget < 0) {
+            errors.push('maxBudget must be a non-negative number (USD)');
+        } else {
+            requirements.maxBudget = maxBudget;
+        }
+    }
+
+    if (query['minSpeakers'] !== undefined) {
+        const minSpeakers = Number(query['minSpeakers']);
+        if (!Number.isInteger(minSpeakers) || minSpeakers < 1 || minSpeakers > 8) {
+            errors.push('minSpeakers must be an integer between 1 and 8');
+        } else {
+            requirements.minSpeakers = minSpeakers;
+        }
+    }
+
+    if (query['accuracyPriority'] !== undefined) {
+        const priority = query['accuracyPriority'] as string;
+        if (!['low', 'medium', 'high'].includes(priority)) {
+            errors.push('accuracyPriority must be one of low, medium, high');
+        } else {
+            requirements.accuracyPriority = priority as EstimateRequirements['accuracyPriority'];
+        }
+    }
+
+    if (query['privacyRequired'] !== undefined) {
+        requirements.privacyRequired = query['privacyRequired'] === 'true';
+    }
+
+    if (query['wordTimings'] !== undefined) {
+        requirements.wordTimings = query['wordTimings'] === 'true';
+    }
+
+    return {requirements, errors};
+}
+
+function sendValidationError(res: Response, errors: string[]): void {
+    res.status(400).json({
+        success: false,
+        error: {
+            code: 'VALIDATION_ERROR',
+            message: errors.join('; '),
+            timestamp: new Date().toISOString()
+        }
+    } as APIResponse);
+}
@@ -1,14 +1,20 @@
 // src/controllers/processing.controller.ts
 
 import {Request, Response} from 'express';
+import {processingQueueService} from '../services/processing-queue.service';
 import {processingService} from '../services/processing.service';
+import {buildRecordingProgress} from '../services/processing-pipeline.service';
 import {recordingRepository} from '../repositories/recording.repository';
+import {parseProcessingOptions} from '../utils/processing-options.util';
+import {isAlreadyProcessingError} from '../utils/processing-error.util';
 import {logger} from '../utils/logger.util';
 import {v4 as uuidv4} from 'uuid';
 import type {APIResponse} from '../interfaces/api.interface';
+import type {BudgetCheckResult} from '../interfaces/processing.interface';
+import type {Recording} from '../interfaces/user.interface';
 
 /**
- * Process recording into conversation (new endpoint for recording-based processing)
+ * Queue recording for processing into a conversation
  */
 export const processRecording = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -70,52 +76,56 @@ export const processRecording = async (req: Request, res: Response): Promise<voi
             return;
         }
 
-        logger.info(`Starting recording processing: ${recordingId}`);
-
-        // Update recording status to processing
-        await recordingRepository.updateProcessingStatus(recordingId, 'processing');
-
-        try {
-            // Process recording synchronously (for now)
-            const result = await processingService.processRecording(recordingId);
-
-            logger.info(`Recording processing completed: ${recordingId} -> conversation: ${result.conversationId}`);
-
-            res.json({
-                success: true,
-                data: {
-                    recordingId,
-                    conversationId: result.conversationId,
-                    message: 'Recording processed successfully',
-                    processingStatus: 'completed',
-                    conversation: result.conversation
-                },
-                metadata: {
-                    requestId: uuidv4(),
-                    timestamp: new Date().toISOString(),
-                    processingTime: result.processingTime,
-                    version: '1.0.0',
-                    source: 'recording_processor'
-                }
-            } as APIResponse);
-
-        } catch (processingError) {
-            // Update recording status to failed
-            await recordingRepository.updateProcessingStatus(recordingId, 'failed');
-
-            logger.error(`Recording processing failed: ${recordingId}`, processingError);
-
-            res.status(500).json({
+        const {options, errors} = parseProcessingOptions(req.body || {});
+        if (errors.length > 0) {
+            res.status(400).json({
                 success: false,
                 error: {
-                    code: 'PROCESSING_FAILED',
-                    message: processingError instanceof Error ? processingError.message : 'Unknown processing error',
+                    code: 'VALIDATION_ERROR',
+                    message: errors.join('; '),
                     timestamp: new Date().toISOString()
                 }
             } as APIResponse);
+            return;
+        }
+
+        const budget = await processingService.checkBudget(recording, options);
+        if (!budget.allowed) {
+            sendBudgetExceeded(res, budget);
+            return;
         }
 
+        const job = await processingQueueService.enqueueRecording(recording, options);
+
+        logger.info(`Recording queued for processing: ${recordingId} (job: ${job.jobId})`);
+
+        res.status(202).json({
+            success: true,
+            data: {
+                recordingId,
+                jobId: job.jobId,
+                message: 'Recording queued for processing',
+                processingStatus: job.status,
+                budget: summarizeBudget(budget),
+                statusCheckUrl: `/api/v1/processing/jobs/${job.jobId}`,
+                progressUrl: `/api/v1/processing/recordings/${recordingId}/progress`
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0',
+                source: 'recording_processor'
+            }
+        } as APIResponse);
+
     } catch (error) {
+        // Another request queued the recording between the status check and the enqueue
+        if (isAlreadyProcessingError(error)) {
+            sendAlreadyProcessing(res);
+            return;
+        }
+
         logger.error('Error in recording processing controller:', error);
 
         res.status(500).json({
@@ -161,19 +171,28 @@ export const getRecordingProgress = async (req: Request, res: Response): Promise
             return;
         }
 
-        // Convert recording status to progress info
+        const pipeline = recording.processingPipeline;
         const progress = {
             recordingId,
             status: recording.transcriptionStatus,
             processed: recording.processed,
-            conversationId: recording.conversationId,
+            conversationId: recording.conversationId || pipeline?.conversationId,
             progress: {
-                stage: recording.transcriptionStatus,
-                percentage: recording.transcriptionStatus === 'completed' ? 100 :
-                    recording.transcriptionStatus === 'processing' ? 50 :
-                        recording.transcriptionStatus === 'failed' ? 0 : 0,
+                ...buildRecordingProgress(recording),
                 message: getProgressMessage(recording.transcriptionStatus)
-            }
+            },
+            ...(recording.processingError && {error: recording.processingError}),
+            ...(pipeline && {
+                steps: pipeline.steps.map(step => ({
+                    name: step.name,
+                    status: step.status,
+                    progress: step.progress,
+                    duration: step.duration,
+                    cost: step.cost,
+                    attempts: step.attempts,
+                    error: step.error
+                }))
+            })
         };
 
         res.json({
@@ -201,13 +220,538 @@ export const getRecordingProgress = async (req: Request, res: Response): Promise
     }
 };
 
-// Helper function
+/**
+ * Stream recording processing progress as Server-Sent Events.
+ * Emits 'progress' events while the pipeline runs and a final
+ * 'completed', 'failed' or 'cancelled' event before closing.
+ */
+export const streamRecordingProgress = async (req: Request, res: Response): Promise<void> => {
+    const HEARTBEAT_INTERVAL_MS = 15 * 1000; // Keeps proxies from closing idle connections
+    const MAX_STREAM_DURATION_MS = 60 * 60 * 1000;
+
+    try {
+        const {recordingId} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+
+        let lastPayload = '';
+        let closed = false;
+        let unsubscribe: (() => void) | null = null;
+
+        const send = (event: string, data: unknown): void => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            // The compression middleware buffers output unless flushed
+            (res as Response & { flush?: () => void }).flush?.();
+        };
+
+        const close = (): void => {
+            if (closed) {
+                return;
+            }
+            closed = true;
+            clearInterval(heartbeat);
+            clearTimeout(timeout);
+            unsubscribe?.();
+            res.end();
+        };
+
+        const handleUpdate = (current: Recording | null): void => {
+            if (closed) {
+                return;
+            }
+
+            if (!current) {
+                send('failed', {recordingId, error: {code: 'RECORDING_NOT_FOUND', message: 'Recording was deleted'}});
+                close();
+                return;
+            }
+
+            const progress = buildRecordingProgress(current);
+            const payload = JSON.stringify(progress);
+            if (payload !== lastPayload) {
+                lastPayload = payload;
+                send('progress', {recordingId, ...progress});
+            }
+
+            const outcome = getProcessingOutcome(current);
+            if (!outcome) {
+                return;
+            }
+
+            send(outcome, {
+                recordingId,
+                status: outcome,
+                conversationId: outcome === 'completed'
+                    ? current.processingPipeline?.conversationId || current.conversationId
+                    : undefined,
+                activeConversationId: current.conversationId,
+                progress,
+                ...(outcome !== 'completed' && current.processingError && {error: current.processingError})
+            });
+            close();
+        };
+
+        const heartbeat = setInterval(() => {
+            res.write(': heartbeat\n\n');
+            (res as Response & { flush?: () => void }).flush?.();
+        }, HEARTBEAT_INTERVAL_MS);
+        const timeout = setTimeout(close, MAX_STREAM_DURATION_MS);
+
+        req.on('close', close);
+
+        handleUpdate(recording);
+        if (!closed) {
+            unsubscribe = recordingRepository.watchRecording(recording.id, handleUpdate, error => {
+                logger.error(`Progress stream listener failed for recording ${recording.id}:`, error);
+                send('error', {recordingId, error: {code: 'STREAM_FAILED', message: 'Progress updates unavailable'}});
+                close();
+            });
+        }
+
+    } catch (error) {
+        logger.error('Error streaming recording progress:', error);
+
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to stream recording progress',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Get processing job status
+ */
+export const getProcessingJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {jobId} = req.params;
+
+        const job = jobId ? await processingQueueService.getJob(jobId) : null;
+        if (!job) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'JOB_NOT_FOUND',
+                    message: 'Processing job not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: job,
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error getting processing job:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to get processing job',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Cancel in-flight processing of a recording
+ */
+export const cancelProcessing = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        if (recording.transcriptionStatus !== 'processing') {
+            res.status(409).json({
+                success: false,
+                error: {
+                    code: 'NOT_CANCELLABLE',
+                    message: `Recording status is '${recording.transcriptionStatus}', only processing recordings can be cancelled`,
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const outcome = await processingQueueService.cancelRecording(recording);
+
+        // Queued jobs are cancelled immediately; running jobs stop at the next stage boundary
+        res.status(outcome === 'queued' ? 200 : 202).json({
+            success: true,
+            data: {
+                recordingId,
+                jobId: recording.processingJobId,
+                message: outcome === 'queued'
+                    ? 'Processing cancelled before it started'
+                    : 'Cancellation requested, processing stops at the next stage',
+                cancellationStatus: outcome === 'queued' ? 'cancelled' : 'requested',
+                progressUrl: `/api/v1/processing/recordings/${recordingId}/progress`
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error cancelling recording processing:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to cancel processing',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Reprocess a recording with different settings, producing a new conversation version
+ */
+export const reprocessRecording = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        if (recording.transcriptionStatus === 'processing') {
+            sendAlreadyProcessing(res, recording.processingJobId);
+            return;
+        }
+
+        const {options, errors} = parseProcessingOptions(req.body || {});
+        if (errors.length > 0) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: errors.join('; '),
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const budget = await processingService.checkBudget(recording, options);
+        if (!budget.allowed) {
+            sendBudgetExceeded(res, budget);
+            return;
+        }
+
+        const job = await processingQueueService.enqueueRecording(recording, options);
+
+        logger.info(`Recording queued for reprocessing: ${recordingId} (job: ${job.jobId})`, options);
+
+        res.status(202).json({
+            success: true,
+            data: {
+                recordingId,
+                jobId: job.jobId,
+                message: 'Recording queued for reprocessing',
+                processingStatus: job.status,
+                options,
+                budget: summarizeBudget(budget),
+                activeConversationId: recording.conversationId,
+                statusCheckUrl: `/api/v1/processing/jobs/${job.jobId}`,
+                progressUrl: `/api/v1/processing/recordings/${recordingId}/progress`,
+                versionsUrl: `/api/v1/processing/recordings/${recordingId}/versions`
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0',
+                source: 'recording_processor'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        if (isAlreadyProcessingError(error)) {
+            sendAlreadyProcessing(res);
+            return;
+        }
+
+        logger.error('Error in recording reprocessing controller:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'CONTROLLER_ERROR',
+                message: 'Internal server error reprocessing recording',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * List conversation versions of a recording with the settings that produced them
+ */
+export const getConversationVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const versions = (recording.conversationVersions || []).map(version => ({
+            ...version,
+            active: version.conversationId === recording.conversationId
+        }));
+
+        res.json({
+            success: true,
+            data: {
+                recordingId,
+                activeConversationId: recording.conversationId,
+                versions
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error getting conversation versions:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to get conversation versions',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Switch the active conversation version of a recording
+ */
+export const activateConversationVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId, version} = req.params;
+
+        const recording = recordingId ? await recordingRepository.findById(recordingId) : null;
+        if (!recording) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'RECORDING_NOT_FOUND',
+                    message: 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const target = (recording.conversationVersions || []).find(v => v.version === Number(version));
+        if (!target) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'VERSION_NOT_FOUND',
+                    message: `Conversation version ${version} not found`,
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        if (target.status !== 'completed') {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VERSION_NOT_COMPLETED',
+                    message: `Conversation version ${version} is '${target.status}' and cannot be activated`,
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        await recordingRepository.update(recording.id, {
+            conversationId: target.conversationId
+        });
+
+        logger.info(`Active conversation version switched: ${recording.id} -> v${target.version} (${target.conversationId})`);
+
+        res.json({
+            success: true,
+            data: {
+                recordingId: recording.id,
+                activeConversationId: target.conversationId,
+                activeVersion: target
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error activating conversation version:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to activate conversation version',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+// Helper functions
+function getProcessingOutcome(recording: Recording): 'completed' | 'failed' | 'cancelled' | null {
+    const status = recording.transcriptionStatus;
+    if (status === 'pending' || status === 'processing') {
+        return null;
+    }
+
+    // A failed or cancelled reprocess leaves the recording 'completed'; the pipeline tells what happened to this run
+    const pipelineStatus = recording.processingPipeline?.status;
+    if (pipelineStatus === 'completed' || pipelineStatus === 'failed' || pipelineStatus === 'cancelled') {
+        return pipelineStatus;
+    }
+
+    return status;
+}
+
+/**
+ * Refuse a run that does not fit the budget (402 with the limit that was hit)
+ */
+function sendBudgetExceeded(res: Response, budget: BudgetCheckResult): void {
+    res.status(402).json({
+        success: false,
+        error: {
+            code: budget.error?.code || 'BUDGET_EXCEEDED',
+            message: budget.error?.message || 'Processing would exceed the budget',
+            timestamp: new Date().toISOString(),
+            details: {
+                estimatedCost: budget.requestedCost,
+                requestedTier: budget.requestedTier,
+                limits: budget.limits
+            }
+        }
+    } as APIResponse);
+}
+
+/**
+ * Refuse a run for a recording that is already being processed (409)
+ */
+function sendAlreadyProcessing(res: Response, jobId?: string): void {
+    res.status(409).json({
+        success: false,
+        error: {
+            code: 'ALREADY_PROCESSING',
+            message: 'Recording is already being processed',
+            timestamp: new Date().toISOString(),
+            ...(jobId && {details: {jobId}})
+        }
+    } as APIResponse);
+}
+
+function summarizeBudget(budget: BudgetCheckResult): Pick<BudgetCheckResult, 'tier' | 'estimatedCost' | 'downgraded' | 'alert'> &
+    Partial<Pick<BudgetCheckResult, 'requestedTier' | 'requestedCost'>> & { monthlyRemaining: number } {
+    return {
+        tier: budget.tier,
+        estimatedCost: budget.estimatedCost,
+        downgraded: budget.downgraded,
+        ...(budget.downgraded && {requestedTier: budget.requestedTier, requestedCost: budget.requestedCost}),
+        ...(budget.alert && {alert: budget.alert}),
+        monthlyRemaining: budget.limits.monthlyRemaining
+    };
+}
+
 function getProgressMessage(status: string): string {
     const messages: Record<string, string> = {
         pending: 'Recording ready for processing',
         processing: 'Converting speech to text...',
         completed: 'Processing completed successfully',
-        failed: 'Processing failed'
+        failed: 'Processing failed',
+        cancelled: 'Processing cancelled'
     };
     return messages[status] || 'Unknown status';
 }
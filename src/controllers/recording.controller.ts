@@ -5,9 +5,15 @@ import {v4 as uuidv4} from 'uuid';
 import {storageService} from '../services/storage.service';
 import {audioValidationService} from '../services/audio-validation.service';
 import {recordingRepository} from '../repositories/recording.repository';
+import {webhookService} from '../services/webhook.service';
+import {speechToTextService} from '../services/speech-to-text.service';
+import {parseUploadOptions} from '../utils/processing-options.util';
+import {getWordTimeline} from '../utils/word-timings.util';
+import {parseWav} from '../utils/wav.util';
+import {databaseService} from '../services/database.service';
 import {logger} from '../utils/logger.util';
 import type {Recording} from '../interfaces/user.interface';
-import type {UploadConversationRequest, UploadConversationResponse} from '../interfaces/conversation.interface';
+import type {AudioFormat, UploadConversationRequest, UploadConversationResponse} from '../interfaces/conversation.interface';
 import type {APIResponse} from '../interfaces/api.interface';
 
 /**
@@ -48,6 +54,19 @@ export const uploadRecording = async (req: Request, res: Response): Promise<void
             return;
         }
 
+        const {options: uploadOptions, errors: optionErrors} = parseUploadOptions(req.body);
+        if (optionErrors.length > 0) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: optionErrors.join('; '),
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
         // Validate audio file
         const validationResult = await audioValidationService.validateAudioFile({
             buffer: audioFile.buffer,
@@ -107,6 +126,11 @@ export const uploadRecording = async (req: Request, res: Response): Promise<void
         // const gcsUrl = `gs://${bucketName}/recordings/${recordingId}/audio/original${fileExtension}`;
         const gcsUrl = `${bucketName}/${uploadResult.file?.storageKey}`;
 
+        // Only a WAV header gives a reliable sample rate and channel count; the validator
+        // guesses them for other formats, and Google reads them from compressed headers
+        const encoding = speechToTextService.getAudioEncoding(audioFile.mimetype, validationResult.metadata.format);
+        const wav = encoding === 'LINEAR16' ? parseWav(audioFile.buffer) : null;
+
         // Create recording record (similar to Twilio flow)
         const recording: Omit<Recording, 'id' | 'createdAt' | 'updatedAt'> = {
             userId,
@@ -145,7 +169,15 @@ export const uploadRecording = async (req: Request, res: Response): Promise<void
                 fileSize: audioFile.size,
                 uploadedTitle: title || `Recording ${new Date().toLocaleDateString()}`,
                 uploadedDescription: description || '',
-                source: 'upload'
+                source: 'upload',
+                language: uploadOptions.language,
+                audio: {
+                    format: validationResult.metadata.format as AudioFormat,
+                    encoding,
+                    ...(wav && {sampleRateHertz: wav.sampleRate, channels: wav.channels})
+                },
+                processingConfig: uploadOptions.config,
+                costOptimization: uploadOptions.costOptimization
             },
 
             // Flags
@@ -157,6 +189,14 @@ export const uploadRecording = async (req: Request, res: Response): Promise<void
 
         logger.info(`Recording created successfully: ${createdRecordingId}`);
 
+        webhookService.emit('recording.created', {
+            recordingId: createdRecordingId,
+            userId: recording.userId,
+            source: 'upload',
+            duration: recording.recordingDuration,
+            originalFileName: audioFile.originalname
+        });
+
         // Return response (using UploadConversationResponse for backward compatibility, but it's really a recording response)
         const response: UploadConversationResponse = {
             recordingId: createdRecordingId, // Return recording ID as conversationId for compatibility
@@ -257,6 +297,95 @@ export const getRecording = async (req: Request, res: Response): Promise<void> =
     }
 };
 
+/**
+ * Word timeline for synchronized playback. Only versions processed with word
+ * timings have one.
+ */
+export const getRecordingWords = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {recordingId} = req.params;
+        const from = req.query['from'] !== undefined ? Number(req.query['from']) : 0;
+        const to = req.query['to'] !== undefined ? Number(req.query['to']) : Infinity;
+        const version = req.query['version'] !== undefined ? Number(req.query['version']) : undefined;
+
+        if (!Number.isFinite(from) || from < 0 || Number.isNaN(to) || to <= from ||
+            (version !== undefined && !Number.isInteger(version))) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'from and to must be seconds with from < to; version must be an integer',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const recording = await recordingRepository.findById(recordingId);
+        const conversationId = version !== undefined
+            ? recording?.conversationVersions?.find(entry => entry.version === version)?.conversationId
+            : recording?.conversationId;
+
+        if (!recording || !conversationId) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: recording ? 'CONVERSATION_NOT_FOUND' : 'RECORDING_NOT_FOUND',
+                    message: recording ? 'Recording has no processed conversation for that version' : 'Recording not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const conversation = await databaseService.conversations.findById(conversationId);
+        if (!conversation?.messages.some(message => message.wordTimings)) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'WORD_TIMINGS_NOT_AVAILABLE',
+                    message: 'This version was processed without word timings; reprocess with wordTimings enabled',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const words = getWordTimeline(conversation.messages, from, to);
+
+        res.json({
+            success: true,
+            data: {
+                recordingId,
+                conversationId,
+                ...(conversation.version !== undefined && {version: conversation.version}),
+                from,
+                to: Number.isFinite(to) ? to : conversation.metadata.duration,
+                wordCount: words.length,
+                words
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error getting word timeline:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Internal server error',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
 /**
  * List user recordings (for mobile app)
  */
@@ -354,7 +483,8 @@ function getRecordingProgress(recording: Recording) {
         'pending': {percentage: 0, stage: 'pending', message: 'Recording ready for processing'},
         'processing': {percentage: 50, stage: 'processing', message: 'Converting recording to conversation...'},
         'completed': {percentage: 100, stage: 'completed', message: 'Recording processed successfully'},
-        'failed': {percentage: 0, stage: 'failed', message: 'Recording processing failed'}
+        'failed': {percentage: 0, stage: 'failed', message: 'Recording processing failed'},
+        'cancelled': {percentage: 0, stage: 'cancelled', message: 'Recording processing cancelled'}
     };
 
     const progress = progressMap[recording.transcriptionStatus] || progressMap['pending'];
@@ -24,7 +24,9 @@ export const handleRecordingWebhook = async (req: Request, res: Response): Promi
             CallSid,
             RecordingSid,
             RecordingUrl,
-            RecordingDuration
+            RecordingDuration,
+            RecordingChannels,
+            RecordingSource
         } = req.body;
 
         // Validate webhook data
@@ -46,7 +48,9 @@ export const handleRecordingWebhook = async (req: Request, res: Response): Promi
             CallSid,
             RecordingSid,
             RecordingUrl,
-            RecordingDuration
+            RecordingDuration,
+            RecordingChannels,
+            RecordingSource
         }, req.body);
 
         if (result.success) {
@@ -56,9 +60,12 @@ export const handleRecordingWebhook = async (req: Request, res: Response): Promi
                 success: true,
                 data: {
                     recordingId: result.recordingId,
-                    message: 'Recording metadata stored successfully',
-                    status: 'stored',
-                    processingStatus: 'ready_for_processing'
+                    message: result.duplicate
+                        ? 'Recording already received'
+                        : 'Recording metadata stored successfully',
+                    status: result.duplicate ? 'duplicate' : 'stored',
+                    processingStatus: result.processingJobId ? 'queued' : 'ready_for_processing',
+                    ...(result.processingJobId && {jobId: result.processingJobId})
                 },
                 metadata: {
                     requestId: uuidv4(),
@@ -191,12 +198,15 @@ export const authorizeCall = async (req: Request, res: Response): Promise<void>
         //     }; // enable for testing
 
         if (authResult.authorized) {
-            // Return TwiML to allow the call and record it
+            // Return TwiML to allow the call and record it. Nobody is bridged, so the recording
+            // stays single-channel and speakers come from diarization; channel attribution
+            // applies to dual-channel recordings of bridged calls (RecordingSource DialVerb).
+            // The caller ends the recording with # or by hanging up.
             const twiml = `<?xml version="1.0" encoding="UTF-8"?>
         <Response>
           <Say>Welcome to your conversation recorder. This call will be recorded.</Say>
-          <Record action="/api/v1/twilio/recording" 
-                  method="POST" 
+          <Record action="/api/v1/twilio/recording"
+                  method="POST"
                   recordingStatusCallback="/api/v1/twilio/recording"
                   maxLength="3600"
                   finishOnKey="#" />
@@ -4,6 +4,8 @@ import {Request, Response} from 'express';
 import {userMetadataService} from '../services/user-metadata.service';
 import {logger} from '../utils/logger.util';
 import {v4 as uuidv4} from 'uuid';
+import {SubscriptionHelper} from '../interfaces/user.interface';
+import {parseContacts, parseVocabularyList} from '../utils/speech-adaptation.util';
 import type {APIResponse} from '../interfaces/api.interface';
 
 /**
@@ -130,6 +132,365 @@ export const updateUserTwilio = async (req: Request, res: Response): Promise<voi
     }
 };
 
+/**
+ * Update user processing preferences from iOS app
+ */
+export const updateUserPreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const preferencesData = req.body;
+
+        if (!preferencesData.uid || !preferencesData.preferences) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'MISSING_PREFERENCES_DATA',
+                    message: 'uid and preferences are required',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const {autoProcess, vocabularyHints} = preferencesData.preferences;
+        const invalid = Object.entries({autoProcess, vocabularyHints})
+            .find(([, value]) => value !== undefined && value !== null && typeof value !== 'boolean');
+        if (invalid) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'INVALID_PREFERENCES',
+                    message: `preferences.${invalid[0]} must be a boolean or null`,
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const result = await userMetadataService.updateUserPreferences({
+            uid: preferencesData.uid,
+            preferences: {autoProcess, vocabularyHints}
+        });
+
+        if (result.success) {
+            res.json({
+                success: true,
+                data: {
+                    message: 'Preferences updated successfully',
+                    uid: preferencesData.uid,
+                    preferences: result.preferences,
+                    effective: {
+                        autoProcess: result.autoProcess,
+                        vocabularyHints: result.preferences?.vocabularyHints !== false
+                    }
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'PREFERENCES_UPDATE_FAILED',
+                    message: result.error || 'Failed to update preferences',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in updateUserPreferences:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to update preferences',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * List the user's vocabulary lists
+ */
+export const getVocabulary = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {uid} = req.params;
+        const result = await userMetadataService.getVocabulary(uid);
+
+        if (result.success) {
+            res.json({
+                success: true,
+                data: {
+                    uid,
+                    vocabulary: result.vocabulary
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(result.notFound ? 404 : 500).json({
+                success: false,
+                error: {
+                    code: result.notFound ? 'USER_NOT_FOUND' : 'VOCABULARY_QUERY_FAILED',
+                    message: result.error || 'Failed to retrieve vocabulary',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in getVocabulary:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to retrieve vocabulary',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Create a vocabulary list of names, product terms or jargon
+ */
+export const createVocabularyList = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {uid} = req.params;
+        const {list, errors} = parseVocabularyList(req.body || {});
+
+        if (errors.length > 0) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid vocabulary list',
+                    details: {errors},
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const result = await userMetadataService.createVocabularyList(uid, list);
+
+        if (result.success) {
+            res.status(201).json({
+                success: true,
+                data: {
+                    uid,
+                    list: result.list
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(result.notFound ? 404 : 400).json({
+                success: false,
+                error: {
+                    code: result.notFound ? 'USER_NOT_FOUND' : 'VOCABULARY_CREATE_FAILED',
+                    message: result.error || 'Failed to create vocabulary list',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in createVocabularyList:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to create vocabulary list',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Update a vocabulary list; omitted fields are kept
+ */
+export const updateVocabularyList = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {uid, listId} = req.params;
+        const {list, errors} = parseVocabularyList(req.body || {}, true);
+
+        if (errors.length > 0) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid vocabulary list',
+                    details: {errors},
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const result = await userMetadataService.updateVocabularyList(uid, listId, list);
+
+        if (result.success) {
+            res.json({
+                success: true,
+                data: {
+                    uid,
+                    list: result.list
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(result.notFound ? 404 : 400).json({
+                success: false,
+                error: {
+                    code: result.notFound ? 'NOT_FOUND' : 'VOCABULARY_UPDATE_FAILED',
+                    message: result.error || 'Failed to update vocabulary list',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in updateVocabularyList:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to update vocabulary list',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Delete a vocabulary list
+ */
+export const deleteVocabularyList = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {uid, listId} = req.params;
+        const result = await userMetadataService.deleteVocabularyList(uid, listId);
+
+        if (result.success) {
+            res.json({
+                success: true,
+                data: {
+                    message: 'Vocabulary list deleted successfully',
+                    uid,
+                    listId
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(result.notFound ? 404 : 400).json({
+                success: false,
+                error: {
+                    code: result.notFound ? 'NOT_FOUND' : 'VOCABULARY_DELETE_FAILED',
+                    message: result.error || 'Failed to delete vocabulary list',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in deleteVocabularyList:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to delete vocabulary list',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Replace the contacts synced from iOS; their names become vocabulary hints
+ */
+export const updateUserContacts = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {uid} = req.params;
+        const {contacts, errors} = parseContacts(req.body?.contacts);
+
+        if (errors.length > 0) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: 'Invalid contacts',
+                    details: {errors},
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const result = await userMetadataService.updateContacts(uid, contacts);
+
+        if (result.success) {
+            res.json({
+                success: true,
+                data: {
+                    message: 'Contacts updated successfully',
+                    uid,
+                    contactCount: contacts.length
+                },
+                metadata: {
+                    requestId: uuidv4(),
+                    timestamp: new Date().toISOString(),
+                    processingTime: 0,
+                    version: '1.0.0'
+                }
+            } as APIResponse);
+        } else {
+            res.status(result.notFound ? 404 : 400).json({
+                success: false,
+                error: {
+                    code: result.notFound ? 'USER_NOT_FOUND' : 'CONTACTS_UPDATE_FAILED',
+                    message: result.error || 'Failed to update contacts',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+        }
+
+    } catch (error) {
+        logger.error('Error in updateUserContacts:', error);
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to update contacts',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
 /**
  * Get user by phone number (for iOS verification)
  */
@@ -160,7 +521,12 @@ export const getUserByPhone = async (req: Request, res: Response): Promise<void>
                         phoneNumber: result.user.phoneNumber,
                         subscription: result.user.subscription,
                         twilio: result.user.twilio,
-                        profile: result.user.profile
+                        profile: result.user.profile,
+                        preferences: {
+                            ...result.user.preferences,
+                            autoProcess: SubscriptionHelper.shouldAutoProcess(result.user),
+                            vocabularyHints: result.user.preferences?.vocabularyHints !== false
+                        }
                     }
                 },
                 metadata: {
@@ -0,0 +1,319 @@
+// src/controllers/webhook.controller.ts
+
+import {Request, Response} from 'express';
+import {SUPPORTED_WEBHOOK_EVENTS, webhookService} from '../services/webhook.service';
+import {webhookDeliveryRepository} from '../repositories/webhook-delivery.repository';
+import {logger} from '../utils/logger.util';
+import {v4 as uuidv4} from 'uuid';
+import type {APIResponse} from '../interfaces/api.interface';
+import type {AppWebhookEvent} from '../interfaces/config.interface';
+import type {CreateWebhookEndpointRequest, WebhookDeliveryStatus} from '../interfaces/webhook.interface';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+/**
+ * Register a webhook endpoint
+ */
+export const createWebhookEndpoint = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const request = req.body as CreateWebhookEndpointRequest;
+        const validationError = validateEndpointRequest(request);
+
+        if (validationError) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: validationError,
+                    timestamp: new Date().toISOString(),
+                    details: {supportedEvents: SUPPORTED_WEBHOOK_EVENTS}
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const endpoint = await webhookService.createEndpoint(request);
+
+        res.status(201).json({
+            success: true,
+            data: {
+                ...endpoint,
+                message: 'Store the secret now; it is not returned again. ' +
+                    'Verify X-Webhook-Signature as an HMAC of "<X-Webhook-Timestamp>.<raw body>".'
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error creating webhook endpoint:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to create webhook endpoint',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * List registered webhook endpoints (secrets omitted)
+ */
+export const getWebhookEndpoints = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const endpoints = await webhookService.listEndpoints();
+
+        res.json({
+            success: true,
+            data: {endpoints, supportedEvents: SUPPORTED_WEBHOOK_EVENTS},
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error listing webhook endpoints:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to list webhook endpoints',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Delete a registered webhook endpoint
+ */
+export const deleteWebhookEndpoint = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {endpointId} = req.params;
+
+        const deleted = endpointId ? await webhookService.deleteEndpoint(endpointId) : false;
+        if (!deleted) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'ENDPOINT_NOT_FOUND',
+                    message: 'Webhook endpoint not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {endpointId, deleted: true},
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error deleting webhook endpoint:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to delete webhook endpoint',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * List webhook deliveries, newest first
+ */
+export const getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {endpointId, event, status} = req.query as Record<string, string | undefined>;
+        const limit = Math.min(parseInt(req.query['limit'] as string) || 20, 100);
+        const offset = parseInt(req.query['offset'] as string) || 0;
+
+        if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+            res.status(400).json({
+                success: false,
+                error: {
+                    code: 'VALIDATION_ERROR',
+                    message: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        const result = await webhookDeliveryRepository.findDeliveries({
+            ...(endpointId && {endpointId}),
+            ...(event && {event}),
+            ...(status && {status: status as WebhookDeliveryStatus})
+        }, {limit, offset});
+
+        res.json({
+            success: true,
+            data: {
+                deliveries: result.deliveries,
+                pagination: {limit, offset, hasMore: result.hasMore}
+            },
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error listing webhook deliveries:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to list webhook deliveries',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Get a single webhook delivery with all attempts
+ */
+export const getWebhookDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {deliveryId} = req.params;
+
+        const delivery = deliveryId ? await webhookDeliveryRepository.findById(deliveryId) : null;
+        if (!delivery) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'DELIVERY_NOT_FOUND',
+                    message: 'Webhook delivery not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: delivery,
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error getting webhook delivery:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to get webhook delivery',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+/**
+ * Send a logged delivery again (same event ID and payload)
+ */
+export const redeliverWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const {deliveryId} = req.params;
+
+        const delivery = deliveryId ? await webhookService.redeliver(deliveryId) : null;
+        if (!delivery) {
+            res.status(404).json({
+                success: false,
+                error: {
+                    code: 'DELIVERY_NOT_FOUND',
+                    message: 'Webhook delivery not found',
+                    timestamp: new Date().toISOString()
+                }
+            } as APIResponse);
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: delivery,
+            metadata: {
+                requestId: uuidv4(),
+                timestamp: new Date().toISOString(),
+                processingTime: 0,
+                version: '1.0.0'
+            }
+        } as APIResponse);
+
+    } catch (error) {
+        logger.error('Error redelivering webhook:', error);
+
+        res.status(500).json({
+            success: false,
+            error: {
+                code: 'REDELIVERY_FAILED',
+                message: error instanceof Error ? error.message : 'Failed to redeliver webhook',
+                timestamp: new Date().toISOString()
+            }
+        } as APIResponse);
+    }
+};
+
+function validateEndpointRequest(request: CreateWebhookEndpointRequest | undefined): string | null {
+    if (!request?.name || typeof request.name !== 'string') {
+        return 'name is required';
+    }
+
+    let url: URL;
+    try {
+        url = new URL(request.url);
+    } catch {
+        return 'url must be a valid URL';
+    }
+
+    const allowedProtocols = process.env['NODE_ENV'] === 'production' ? ['https:'] : ['https:', 'http:'];
+    if (!allowedProtocols.includes(url.protocol)) {
+        return `url must use ${allowedProtocols.join(' or ')}`;
+    }
+
+    if (!Array.isArray(request.events) || request.events.length === 0) {
+        return 'events must be a non-empty array';
+    }
+
+    const unsupported = request.events.filter(event => !SUPPORTED_WEBHOOK_EVENTS.includes(event as AppWebhookEvent));
+    if (unsupported.length > 0) {
+        return `Unsupported events: ${unsupported.join(', ')}`;
+    }
+
+    if (request.authentication && !['bearer', 'basic', 'apikey'].includes(request.authentication.type)) {
+        return 'authentication.type must be bearer, basic or apikey';
+    }
+
+    return null;
+}
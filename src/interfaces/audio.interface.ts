@@ -1,5 +1,7 @@
 // src/interfaces/audio.interface.ts
 
+import type {SpeechProvider} from './config.interface';
+
 /**
  * Audio processing and file handling interfaces - Cost Optimized
  */
@@ -106,8 +108,11 @@ export interface SpeechToTextRequest {
 }
 
 export interface SpeechRecognitionConfig {
+    provider?: SpeechProvider; // Recognition backend; the configured default when unset
     encoding: AudioEncoding;
-    sampleRateHertz: number;
+    sampleRateHertz?: number; // Omitted for compressed audio, whose header carries the rate
+    audioChannelCount?: number; // Required by Google for multi-channel LINEAR16/FLAC
+    enableSeparateRecognitionPerChannel?: boolean; // Transcribe each channel on its own; speakers come from channels
     languageCode: string;
     alternativeLanguageCodes?: string[];  // Reduced for cost optimization
     maxAlternatives?: number;
@@ -155,8 +160,11 @@ export type RecognitionModel =
 
 export interface SpeechToTextResponse {
     results: any[];
-    totalBilledTime: number;
+    totalBilledTime: number; // minutes
     requestId?: string;
+    languageCode?: string; // Requested primary language; results carry the detected one
+    speakerAttribution?: SpeakerAttribution; // How speaker tags were assigned; diarization when unset
+    alternativeEdits?: AlternativeEdit[]; // Set when results were rebuilt (chunked audio); otherwise read from results
     costEstimate?: {
         baseMinutes: number;
         premiumFeatureCost: number;
@@ -169,6 +177,7 @@ export interface SpeechRecognitionResult {
     alternatives: SpeechRecognitionAlternative[];
     channelTag?: number;
     languageCode?: string;
+    resultEndTime?: number; // seconds
 }
 
 export interface SpeechRecognitionAlternative {
@@ -183,16 +192,25 @@ export interface WordInfo {
     word: string;
     confidence: number;
     speakerTag?: number;
+    languageCode?: string;
 }
 
 // ============================================================================
 // SPEAKER DIARIZATION INTERFACES - COST OPTIMIZED
 // ============================================================================
 
+/**
+ * Source of speaker tags: the recognizer's diarization, or the audio channel
+ * each word was heard on (channel 1 is the caller on Twilio calls)
+ */
+export type SpeakerAttribution = 'diarization' | 'channel';
+
 export interface DiarizationResult {
     segments: SpeakerSegment[];
     speakerCount: number;
     totalDuration: number;
+    attribution?: SpeakerAttribution;
+    alternativeEdits?: AlternativeEdit[];
     costOptimizationApplied?: {
         reducedSpeakerLimit: boolean;
         simplifiedModel: boolean;
@@ -200,13 +218,29 @@ export interface DiarizationResult {
     };
 }
 
+/**
+ * A lower-ranked recognition alternative, reduced to the words where it
+ * differs from the top transcript. The replaced top words are identified by
+ * their start times so the edit can be applied to whichever message holds them.
+ */
+export interface AlternativeEdit {
+    from: number; // seconds; start time of the first replaced top word
+    to: number; // seconds; start time of the last replaced top word
+    words: string[]; // Replacement words
+    confidence: number; // 0 when the recognizer did not score the alternative
+    rank: number; // 1 for the second-best alternative of its result
+    channelTag?: number;
+}
+
 export interface SpeakerSegment {
     speakerTag: number;
     startTime: number; // seconds
     endTime: number; // seconds
-    confidence: number;
+    confidence: number; // Mean word confidence
+    wordCount?: number;
     transcript?: string;
     words?: WordInfo[];
+    languageCode?: string; // Most frequent language among the segment's words
 }
 
 export interface SpeakerProfile {
@@ -228,7 +262,8 @@ export interface SpeakerProfile {
 export interface AudioProcessingPipeline {
     steps: ProcessingStep[];
     currentStep: number;
-    status: 'pending' | 'running' | 'completed' | 'failed';
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+    conversationId?: string; // Conversation being produced by this run
     startTime?: Date;
     endTime?: Date;
     errors?: ProcessingStepError[];
@@ -242,6 +277,8 @@ export interface ProcessingStep {
     endTime?: Date;
     duration?: number; // milliseconds
     progress?: number; // 0-100
+    cost?: number; // USD incurred by this step
+    attempts?: number; // Including retries
     result?: any;
     error?: ProcessingStepError;
 }
@@ -251,7 +288,8 @@ export type ProcessingStepStatus =
     | 'running'
     | 'completed'
     | 'failed'
-    | 'skipped';
+    | 'skipped'
+    | 'cancelled';
 
 export interface ProcessingStepError {
     code: string;
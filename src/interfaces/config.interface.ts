@@ -133,7 +133,7 @@ export interface SpeechToTextServiceConfig {
     retryPolicy: RetryPolicyConfig;
 }
 
-export type SpeechProvider = 'google' | 'aws' | 'azure' | 'openai';
+export type SpeechProvider = 'google' | 'aws' | 'azure' | 'openai' | 'fixture'; // fixture replays recorded responses offline
 
 export interface GoogleSpeechConfig {
     projectId: string;
@@ -532,6 +532,10 @@ export interface AppWebhookEndpoint { // Renamed from WebhookEndpoint
 }
 
 export type AppWebhookEvent = // Renamed from WebhookEvent
+    | 'recording.created'
+    | 'processing.started'
+    | 'conversation.completed'
+    | 'processing.failed'
     | 'conversation.created'
     | 'conversation.processing.started'
     | 'conversation.processing.progress'
@@ -1,5 +1,7 @@
 // src/interfaces/conversation.interface.ts
 
+import type {ProcessingSettings} from './processing.interface';
+
 /**
  * Core conversation data structures for the conversation parser
  */
@@ -12,7 +14,8 @@ export interface ConversationMetadata {
     title: string;
     description?: string;
     duration: number; // in seconds
-    language: string; // ISO language code (en-US, es-ES, etc.)
+    language: string; // ISO language code (en-US, es-ES, etc.); the dominant language when several were spoken
+    languages?: string[]; // Every detected language, by speaking time
     recordingDate: string; // ISO date string
     processingDate: string; // ISO date string
     confidence: number; // Overall transcription confidence (0-1)
@@ -49,11 +52,15 @@ export interface Speaker {
     id: string; // Unique speaker ID (speaker_1, speaker_2, etc.)
     label: string; // Display label ("Speaker 1", "Speaker 2", etc.)
     identifiedName?: string; // User-assigned name (optional)
+    role?: SpeakerRole; // Call party, when speakers come from dual-channel audio
+    channel?: number; // Audio channel the speaker was recorded on
     totalSpeakingTime: number; // Total seconds this speaker spoke
     messageCount: number; // Number of messages from this speaker
     characteristics?: SpeakerCharacteristics;
 }
 
+export type SpeakerRole = 'caller' | 'callee';
+
 export interface SpeakerCharacteristics {
     averagePitch?: 'low' | 'medium' | 'high';
     estimatedGender?: 'male' | 'female' | 'unknown';
@@ -76,21 +83,35 @@ export interface Message {
     messageType: 'question' | 'response' | 'statement' | 'interruption' | 'unknown';
     order: number;
     wordCount: number;
-    alternatives: string[];
+    language?: string; // Detected language of the message (BCP-47)
+    wordTimings?: MessageWordTimings; // Present when the run kept word timings
+    alternatives: MessageAlternative[]; // Lower-ranked recognitions of the message, best first
     analysis?: {  // Enhanced message analysis
         messageTypeConfidence: number;
-        indicators: string[];
-        sentiment: 'positive' | 'negative' | 'neutral';
-        sentimentConfidence: number;
-        emotionalTone?: 'excited' | 'frustrated' | 'calm' | 'concerned' | 'formal';
+        indicators: string[]; // Classification rules that matched, e.g. question_mark or overlap:0.8s
+        sentiment?: SentimentLabel;
+        sentimentScore?: number; // -1 (negative) to 1 (positive)
+        sentimentConfidence?: number;
+        emotionalTone?: EmotionalTone;
     };
 }
 
+/**
+ * Per-word timings as parallel arrays; start and end are milliseconds from the
+ * message startTime
+ */
+export interface MessageWordTimings {
+    words: string[];
+    start: number[];
+    end: number[];
+    confidence: number[];
+}
+
 export type MessageType = 'question' | 'response' | 'statement' | 'interruption' | 'unknown';
 
 export interface MessageAlternative {
     content: string;
-    confidence: number;
+    confidence: number; // 0 when the recognizer only scores its top alternative (Google)
 }
 
 // ============================================================================
@@ -110,7 +131,7 @@ export interface ConversationInsights {
     conversationFlow: ConversationFlow;
     speakingTimeDistribution: SpeakingTimeDistribution[];
     topics?: string[]; // Detected topics (future enhancement)
-    sentiment?: ConversationSentiment; // Sentiment analysis (future enhancement)
+    sentiment?: ConversationSentiment; // Set when sentiment analysis is enabled
     costOptimizationMetrics?: CostOptimizationMetrics; // Cost-related insights
 }
 
@@ -138,14 +159,41 @@ export interface SpeakingTimeDistribution {
     totalTime: number;
 }
 
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export type EmotionalTone = 'excited' | 'frustrated' | 'calm' | 'concerned' | 'formal';
+
 export interface ConversationSentiment {
-    overall: 'positive' | 'negative' | 'neutral';
+    overall: SentimentLabel;
     confidence: number;
-    breakdown: {
+    score?: number; // -1 to 1, messages weighted by word count
+    breakdown: { // Percentage of messages
         positive: number;
         negative: number;
         neutral: number;
     };
+    speakers?: SpeakerSentiment[];
+    timeline?: SentimentTimelinePoint[]; // Sentiment over time, in playback order
+    analyzer?: string; // Analyzer that scored the messages
+}
+
+export interface SpeakerSentiment {
+    speakerId: string;
+    overall: SentimentLabel;
+    confidence: number;
+    score: number; // -1 to 1
+    breakdown: ConversationSentiment['breakdown'];
+    dominantTone?: EmotionalTone;
+}
+
+/**
+ * Mean sentiment of the messages that start within one time window
+ */
+export interface SentimentTimelinePoint {
+    startTime: number; // seconds
+    endTime: number; // seconds
+    score: number; // -1 to 1
+    messageCount: number;
 }
 
 // ============================================================================
@@ -163,6 +211,8 @@ export interface ConversationData {
     createdAt: string; // ISO date string
     updatedAt: string; // ISO date string
     processingLog?: ProcessingLogEntry[]; // For debugging
+    version?: number; // Version number within the recording
+    processingSettings?: ProcessingSettings; // Settings that produced this version
 }
 
 export type ConversationStatus =
@@ -170,6 +220,7 @@ export type ConversationStatus =
     | 'processing'
     | 'completed'
     | 'failed'
+    | 'cancelled'
     | 'deleted';
 
 export interface ProcessingLogEntry {
@@ -183,12 +234,15 @@ export interface ProcessingLogEntry {
 
 export type ProcessingStage =
     | 'upload'
+    | 'download'
     | 'validation'
     | 'diarization'
     | 'transcription'
     | 'parsing'
     | 'insights'
+    | 'persistence'
     | 'completion'
+    | 'cancellation'
     | 'error';
 
 // ============================================================================
@@ -215,6 +269,7 @@ export interface SpeechToTextConfig {
     provider: 'google' | 'aws' | 'azure' | 'whisper'; // For future extensibility
     language: string; // Primary language
     alternativeLanguages?: string[]; // Secondary languages to try
+    detectLanguage?: boolean; // Detect the spoken language among language and alternativeLanguages
     enableAutomaticPunctuation: boolean;
     enableWordTimeOffsets: boolean;
     profanityFilter: boolean;
@@ -232,23 +287,38 @@ export interface DiarizationConfig {
 export interface ParsingConfig {
     detectQuestions: boolean;
     detectInterruptions: boolean;
-    groupSimilarMessages: boolean;
-    minimumMessageLength: number; // In words
+    groupSimilarMessages: boolean; // Group a speaker's consecutive sentences into one message
+    minimumMessageLength: number; // In words; shorter fragments merge into a neighbouring message of the same speaker
     confidenceThreshold: number; // Minimum confidence to include message
+    maxPauseSeconds?: number; // A longer silence within a turn starts a new message
+    maxMessageWords?: number; // Longer messages are split
     enableInsights: boolean;
-    enableSentimentAnalysis: boolean; // Future feature
+    enableSentimentAnalysis: boolean; // On unless set to false
 }
 
 export interface OutputConfig {
     includeTimestamps: boolean;
     includeConfidenceScores: boolean;
     includeAlternatives: boolean;
+    maxAlternatives?: number; // Recognition alternatives to request when includeAlternatives is on, top one included
+    includeWordTimings?: boolean; // Keep per-word timings on messages (adds the word timestamp premium)
     includeInsights: boolean;
     includeProcessingLog: boolean;
     includeCostInfo: boolean; // Include cost information in output
     format: 'standard' | 'detailed' | 'minimal';
 }
 
+/**
+ * Processing settings requested with an upload, stored on the recording and
+ * applied as defaults whenever it is processed
+ */
+export interface RecordingProcessingConfig {
+    speechToText?: Partial<Omit<SpeechToTextConfig, 'provider'>>;
+    diarization?: Partial<DiarizationConfig>;
+    parsing?: Partial<ParsingConfig>;
+    output?: Partial<OutputConfig>;
+}
+
 // ============================================================================
 // API REQUEST/RESPONSE INTERFACES FOR CONVERSATIONS
 // ============================================================================
@@ -7,14 +7,20 @@ export type {
     ConversationMetadata,
     AudioFormat,
     Speaker,
+    SpeakerRole,
     SpeakerCharacteristics,
     Message,
     MessageType,
     MessageAlternative,
+    MessageWordTimings,
     ConversationInsights,
     ConversationFlow,
     SpeakingTimeDistribution,
     ConversationSentiment,
+    SentimentLabel,
+    EmotionalTone,
+    SpeakerSentiment,
+    SentimentTimelinePoint,
     ConversationData,
     ConversationStatus,
     ProcessingLogEntry,
@@ -24,6 +30,7 @@ export type {
     DiarizationConfig,
     ParsingConfig,
     OutputConfig,
+    RecordingProcessingConfig,
     UploadConversationRequest,
     UploadConversationResponse,
     ConversationStatusResponse,
@@ -57,6 +64,8 @@ export type {
     SpeechRecognitionAlternative,
     WordInfo,
     DiarizationResult,
+    AlternativeEdit,
+    SpeakerAttribution,
     SpeakerSegment,
     SpeakerProfile,
     AudioProcessingPipeline,
@@ -139,6 +148,60 @@ export type {
     RateLimitStrategy
 } from './config.interface';
 
+// ============================================================================
+// PROCESSING INTERFACES
+// ============================================================================
+export type {
+    ProcessingJobStatus,
+    ProcessingJobOptions,
+    ProcessingJob,
+    ProcessingSettings,
+    ConversationVersionStatus,
+    ConversationVersion,
+    JobQueue,
+    SchedulerLease,
+    SweepResult,
+    BudgetExceededAction,
+    BudgetLimitCode,
+    BudgetLimits,
+    BudgetCheckResult,
+    EstimateRequirements,
+    TierEstimate,
+    CostEstimate
+} from './processing.interface';
+
+// ============================================================================
+// WEBHOOK INTERFACES
+// ============================================================================
+export type {
+    WebhookEndpointRecord,
+    CreateWebhookEndpointRequest,
+    WebhookEventPayload,
+    WebhookDeliveryStatus,
+    WebhookDeliveryAttempt,
+    WebhookDelivery
+} from './webhook.interface';
+
+// ============================================================================
+// SPEECH PROVIDER INTERFACES
+// ============================================================================
+export type {
+    SpeechProviderAudio,
+    SpeechProcessingOptions,
+    SpeechProviderResponse,
+    SpeechRecognitionProvider
+} from './speech-provider.interface';
+
+// ============================================================================
+// SENTIMENT INTERFACES
+// ============================================================================
+export type {
+    SentimentAnalyzerName,
+    SentimentInput,
+    SentimentScore,
+    SentimentAnalyzer
+} from './sentiment.interface';
+
 // ============================================================================
 // API INTERFACES
 // ============================================================================
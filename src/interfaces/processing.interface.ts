@@ -0,0 +1,226 @@
+// src/interfaces/processing.interface.ts
+
+import type {CostOptimizationConfig} from './conversation.interface';
+import type {SpeechProvider} from './config.interface';
+
+/**
+ * Background processing job interfaces
+ */
+
+// ============================================================================
+// PROCESSING JOB INTERFACES
+// ============================================================================
+
+export type ProcessingJobStatus =
+    | 'queued'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
+
+export interface ProcessingJobOptions {
+    maxSpeakers?: number;
+    minSpeakers?: number;
+    enableEnhanced?: boolean;
+    priorityCost?: 'speed' | 'accuracy' | 'cost';
+    tier?: CostOptimizationConfig['tier']; // Overrides priorityCost presets
+    languageCode?: string;
+    detectLanguage?: boolean; // Let the recognizer pick between languageCode and alternativeLanguageCodes
+    alternativeLanguageCodes?: string[]; // Candidates for language detection (max 3)
+    maxBudget?: number; // USD ceiling for this run
+    onBudgetExceeded?: BudgetExceededAction;
+    provider?: SpeechProvider; // Recognition backend, resolved from the owner's plan
+    wordTimings?: boolean; // Keep per-word timings on messages
+    maxAlternatives?: number; // Recognition alternatives to request, top one included; 1 disables message alternatives
+}
+
+export interface ProcessingJob {
+    jobId: string;
+    recordingId: string;
+    userId: string;
+    status: ProcessingJobStatus;
+    options?: ProcessingJobOptions;
+    attempts: number;
+    result?: {
+        conversationId: string;
+        processingTime: number; // milliseconds
+    };
+    error?: {
+        code: string;
+        message: string;
+        retryable: boolean; // Retries are exhausted; a retryable failure can be resubmitted later
+    };
+    createdAt: string; // ISO date string
+    updatedAt: string; // ISO date string
+    startedAt?: string;
+    completedAt?: string;
+}
+
+// ============================================================================
+// CONVERSATION VERSION INTERFACES
+// ============================================================================
+
+/**
+ * Speech settings that produced a conversation version
+ */
+export interface ProcessingSettings {
+    provider?: SpeechProvider;
+    tier?: CostOptimizationConfig['tier'];
+    priorityCost?: 'speed' | 'accuracy' | 'cost';
+    languageCode: string;
+    alternativeLanguageCodes?: string[]; // Set when language detection was on
+    minSpeakers: number;
+    maxSpeakers: number;
+    model: string;
+    useEnhanced: boolean;
+    enableWordTimeOffsets: boolean;
+    wordTimings?: boolean; // Messages carry word timings
+    maxAlternatives?: number; // Set when messages carry alternatives
+    enableDataLogging: boolean;
+    vocabularyPhrases?: number; // Speech adaptation phrases sent with the run
+    downgradedFrom?: CostOptimizationConfig['tier'] | 'DEFAULT'; // Tier requested before the budget guard downgraded it
+}
+
+export type ConversationVersionStatus =
+    | 'processing'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
+
+/**
+ * One processing run of a recording. Every run produces its own conversation;
+ * the recording's conversationId points at the active version.
+ */
+export interface ConversationVersion {
+    version: number; // 1-based
+    conversationId: string;
+    status: ConversationVersionStatus;
+    settings: ProcessingSettings;
+    cost?: number; // USD
+    jobId?: string;
+    createdAt: string; // ISO date string
+    completedAt?: string;
+}
+
+// ============================================================================
+// JOB QUEUE INTERFACES
+// ============================================================================
+
+/**
+ * Storage contract for processing jobs. The in-memory queue is the default;
+ * Redis or Pub/Sub backends implement the same contract.
+ */
+export interface JobQueue {
+    enqueue(job: ProcessingJob): Promise<void>;
+    dequeue(): Promise<ProcessingJob | null>;
+    getJob(jobId: string): Promise<ProcessingJob | null>;
+    updateJob(jobId: string, updates: Partial<ProcessingJob>): Promise<void>;
+    size(): Promise<number>;
+}
+
+// ============================================================================
+// SCHEDULER INTERFACES
+// ============================================================================
+
+/**
+ * Firestore lease that lets a single instance run a scheduled task
+ */
+export interface SchedulerLease {
+    id: string; // Task name
+    holderId: string; // Instance holding the lease
+    acquiredAt: string; // ISO date string
+    expiresAt: string; // ISO date string
+}
+
+export interface SweepResult {
+    pendingQueued: number;
+    stuckRequeued: number;
+    stuckFailed: number;
+    skipped: boolean; // Another instance holds the lease
+}
+
+// ============================================================================
+// BUDGET INTERFACES
+// ============================================================================
+
+/**
+ * What to do when a run would exceed a budget: refuse it, or process with the
+ * most capable cheaper tier that fits
+ */
+export type BudgetExceededAction = 'reject' | 'downgrade';
+
+export type BudgetLimitCode =
+    | 'REQUEST_BUDGET_EXCEEDED' // Request maxBudget
+    | 'PLAN_REQUEST_LIMIT_EXCEEDED' // Plan per-request limit
+    | 'MONTHLY_BUDGET_EXCEEDED'; // Plan monthly limit minus this month's spend
+
+export interface BudgetLimits {
+    plan: 'basic' | 'premium' | 'enterprise';
+    maxBudget?: number;
+    maxCostPerRequest: number;
+    monthlyCostLimit: number;
+    monthlySpent: number;
+    monthlyRemaining: number;
+}
+
+export interface BudgetCheckResult {
+    allowed: boolean;
+    tier?: CostOptimizationConfig['tier']; // Tier to process with
+    requestedTier?: CostOptimizationConfig['tier'];
+    downgraded: boolean;
+    estimatedCost: number; // USD for the tier that will be used
+    requestedCost: number; // USD for the requested tier
+    limits: BudgetLimits;
+    error?: {
+        code: BudgetLimitCode;
+        message: string;
+        limit: number;
+    };
+    alert?: string; // Set when the run takes monthly spend past the alert threshold
+}
+
+// ============================================================================
+// ESTIMATE INTERFACES
+// ============================================================================
+
+export interface EstimateRequirements {
+    maxBudget?: number;
+    minSpeakers?: number;
+    accuracyPriority?: 'low' | 'medium' | 'high';
+    privacyRequired?: boolean;
+    wordTimings?: boolean; // Price word timestamps into every tier
+}
+
+export interface TierEstimate {
+    tier: CostOptimizationConfig['tier'];
+    name: string;
+    description: string;
+    cost: number; // USD
+    features: string[];
+    savings: number; // USD saved compared to PREMIUM
+    withinBudget: boolean; // Fits the request budget, plan limit and remaining monthly budget
+    breakdown: string[];
+}
+
+/**
+ * Price preview for a recording (or a duration before upload)
+ */
+export interface CostEstimate {
+    recordingId?: string;
+    durationSeconds: number;
+    durationMinutes: number;
+    currency: 'USD';
+    tiers: TierEstimate[];
+    recommendedTier: CostOptimizationConfig['tier'];
+    recommendationReason: string;
+    requirements: EstimateRequirements;
+    budget?: BudgetLimits; // Present when the user is known
+    projection?: {
+        monthToDateSpend: number;
+        recommendedCost: number;
+        projectedMonthEndSpend: number; // Current run rate plus this recording at the recommended tier
+        percentOfMonthlyLimit: number;
+        daysElapsed: number;
+        daysInMonth: number;
+    };
+}
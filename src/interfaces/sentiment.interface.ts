@@ -0,0 +1,33 @@
+// src/interfaces/sentiment.interface.ts
+
+import type {EmotionalTone, SentimentLabel} from './conversation.interface';
+
+/**
+ * Contract between the insights stage and a sentiment backend. The offline
+ * lexicon analyzer is the default; model-backed analyzers implement the same
+ * contract and are selected with SENTIMENT_ANALYZER.
+ */
+
+export type SentimentAnalyzerName = 'lexicon' | 'google' | 'openai';
+
+export interface SentimentInput {
+    text: string;
+    language?: string; // BCP-47; English when unset
+}
+
+export interface SentimentScore {
+    score: number; // -1 (negative) to 1 (positive)
+    label: SentimentLabel;
+    confidence: number; // 0-1
+    emotionalTone?: EmotionalTone;
+}
+
+export interface SentimentAnalyzer {
+    readonly name: SentimentAnalyzerName;
+
+    /**
+     * Score texts in one batch; returns one entry per input, in order, left
+     * undefined for texts in a language the analyzer does not support
+     */
+    analyze(inputs: SentimentInput[]): Promise<(SentimentScore | undefined)[]>;
+}
@@ -0,0 +1,41 @@
+// src/interfaces/speech-provider.interface.ts
+
+import type {SpeechProvider} from './config.interface';
+import type {SpeechRecognitionConfig, SpeechRecognitionResult} from './audio.interface';
+
+/**
+ * Contract between the speech-to-text pipeline and a recognition backend.
+ * Providers translate SpeechRecognitionConfig into their own API and return
+ * results in one normalized shape, so diarization extraction and message
+ * building do not depend on the backend.
+ */
+
+export interface SpeechProviderAudio {
+    content?: Buffer; // Inline audio
+    uri?: string; // Audio in cloud storage (gs://bucket/path)
+}
+
+export interface SpeechProcessingOptions {
+    onProgress?: (percent: number) => void; // Long running operation progress (0-100)
+    signal?: AbortSignal; // Aborting cancels the long running operation
+    recordingId?: string; // Recording the whole audio belongs to (unset for chunk windows)
+}
+
+/**
+ * Normalized recognition output. Times are seconds from the start of the audio.
+ * With diarization enabled the last result repeats every word with its speaker tag.
+ */
+export interface SpeechProviderResponse {
+    results: SpeechRecognitionResult[];
+    billedSeconds: number;
+}
+
+export interface SpeechRecognitionProvider {
+    readonly name: SpeechProvider;
+
+    recognize(
+        audio: SpeechProviderAudio,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions
+    ): Promise<SpeechProviderResponse>;
+}
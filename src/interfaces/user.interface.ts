@@ -1,5 +1,14 @@
 // src/interfaces/user.interface.ts
 
+import type {AudioEncoding, AudioProcessingPipeline} from './audio.interface';
+import type {
+    AudioFormat,
+    ProcessingError,
+    RecordingProcessingConfig,
+    UploadConversationRequest
+} from './conversation.interface';
+import type {ConversationVersion} from './processing.interface';
+
 export interface User {
     uid: string;
     id: string; // Internal DB ID
@@ -12,6 +21,8 @@ export interface User {
         lastName?: string;
         email?: string;
         timezone?: string;
+        language?: string; // BCP-47 tag used when a recording does not specify one
+        preferredLanguages?: string[]; // Languages the user speaks; enables language detection
     };
 
     // Subscription metadata (received from iOS app)
@@ -48,10 +59,22 @@ export interface User {
         lastSyncedFromApp?: string;
     };
 
+    // Processing preferences (set from iOS app, unset values fall back to plan defaults)
+    preferences?: {
+        autoProcess?: boolean; // Queue Twilio recordings for processing as soon as they arrive
+        vocabularyHints?: boolean; // Bias recognition towards profile and contact names (default on)
+    };
+
+    // Custom vocabulary merged into speech recognition for every recording
+    vocabulary?: VocabularyList[];
+    // Contact names synced from the device, used as automatic vocabulary hints
+    contacts?: UserContact[];
+
     usage?: {
         totalRecordings: number;
         totalMinutesRecorded: number;
         monthlyMinutesUsed: number;
+        monthlyProcessingCost?: number; // USD spent on processing since lastMonthlyReset
         lastMonthlyReset: string;
     };
     // Timestamps
@@ -60,6 +83,26 @@ export interface User {
     lastLoginAt?: string;
 }
 
+export interface VocabularyList {
+    id: string;
+    name: string;
+    enabled: boolean;
+    boost?: number; // Default boost for the list's phrases (0-20)
+    phrases: VocabularyPhrase[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface VocabularyPhrase {
+    phrase: string; // Name, product term or jargon, up to 100 characters
+    boost?: number; // Overrides the list boost
+}
+
+export interface UserContact {
+    name: string;
+    phoneNumber?: string;
+}
+
 // Helper functions for subscription logic
 export class SubscriptionHelper {
     /**
@@ -192,6 +235,39 @@ export class SubscriptionHelper {
         }
     }
 
+    /**
+     * Whether recordings are processed automatically by default for a plan
+     */
+    static getDefaultAutoProcess(plan: User['subscription']['plan']): boolean {
+        return plan === 'premium' || plan === 'enterprise';
+    }
+
+    /**
+     * Resolve the effective auto-process setting for a user
+     */
+    static shouldAutoProcess(user: User): boolean {
+        return user.preferences?.autoProcess ?? this.getDefaultAutoProcess(user.subscription?.plan || 'basic');
+    }
+
+    /**
+     * Whether usage counters were last reset in the current calendar month (UTC)
+     */
+    static isCurrentUsagePeriod(usage: User['usage'], now: Date = new Date()): boolean {
+        if (!usage?.lastMonthlyReset) {
+            return false;
+        }
+
+        const reset = new Date(usage.lastMonthlyReset);
+        return reset.getUTCFullYear() === now.getUTCFullYear() && reset.getUTCMonth() === now.getUTCMonth();
+    }
+
+    /**
+     * Processing spend (USD) for the current month
+     */
+    static getMonthlyProcessingCost(user: User): number {
+        return this.isCurrentUsagePeriod(user.usage) ? user.usage?.monthlyProcessingCost || 0 : 0;
+    }
+
     /**
      * Update subscription from RevenueCat data
      */
@@ -308,8 +384,15 @@ export interface Recording {
 
     // Processing status
     processed: boolean;
-    transcriptionStatus: 'pending' | 'processing' | 'completed' | 'failed';
-    conversationId?: string; // Link to your conversation parser results
+    transcriptionStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    conversationId?: string; // Link to your conversation parser results (active version)
+    conversationVersions?: ConversationVersion[]; // Every processing run, oldest first
+    processingJobId?: string; // Latest background processing job
+    processingHeartbeatAt?: string; // Refreshed by the instance that owns the job
+    processingRecoveries?: number; // Times the sweeper requeued a stuck job
+    cancelRequestedAt?: string; // Set by the cancel endpoint; honoured between pipeline stages
+    processingPipeline?: AudioProcessingPipeline; // Per-stage tracking of the latest run
+    processingError?: ProcessingError; // Set when the latest run failed
 
     // Billing
     callPrice: number;
@@ -331,6 +414,19 @@ export interface Recording {
         uploadedDescription?: string;
         language?: string;
         source: 'twilio' | 'upload'; // To distinguish the source
+        recordingSource?: string; // Twilio RecordingSource, e.g. "DialVerb" or "StartCallRecordingTwiML"
+
+        // Audio properties from upload validation; Twilio recordings use the 8kHz LINEAR16 defaults
+        audio?: {
+            format: AudioFormat;
+            encoding: AudioEncoding;
+            sampleRateHertz?: number; // Only stored when read from a WAV header
+            channels?: number;
+        };
+
+        // Processing options requested with the upload, used as defaults for every run
+        processingConfig?: RecordingProcessingConfig;
+        costOptimization?: UploadConversationRequest['costOptimization'];
     };
 
     // Flags
@@ -348,6 +444,8 @@ export interface CreateUserRequest {
         lastName?: string;
         email?: string;
         timezone?: string;
+        language?: string; // BCP-47 tag used when a recording does not specify one
+        preferredLanguages?: string[]; // Languages the user speaks; enables language detection
     };
     twilio?: {
         assignedNumber?: string;
@@ -437,6 +535,21 @@ export interface UpdateUserTwilioRequest {
     };
 }
 
+export interface UpdateUserPreferencesRequest {
+    uid: string;
+    preferences: {
+        autoProcess?: boolean | null; // null resets to the plan default
+        vocabularyHints?: boolean | null; // null resets to the default (on)
+    };
+}
+
+export interface VocabularyListRequest {
+    name?: string;
+    enabled?: boolean;
+    boost?: number | null; // null removes the list boost
+    phrases?: VocabularyPhrase[];
+}
+
 export interface CallAuthorizationRequest {
     fromNumber: string;
     toNumber: string;
@@ -0,0 +1,76 @@
+// src/interfaces/webhook.interface.ts
+
+import type {AppWebhookEndpoint, AppWebhookEvent} from './config.interface';
+
+/**
+ * Outbound webhook interfaces
+ */
+
+// ============================================================================
+// ENDPOINT INTERFACES
+// ============================================================================
+
+/**
+ * Endpoint registered through the API (stored in Firestore)
+ */
+export interface WebhookEndpointRecord extends AppWebhookEndpoint {
+    id: string;
+    secret: string; // HMAC signing secret, only returned when the endpoint is created
+    description?: string;
+    createdAt: string; // ISO date string
+    updatedAt: string; // ISO date string
+}
+
+/**
+ * Endpoint as listed through the API, without its signing secret or credentials
+ */
+export type PublicWebhookEndpoint = Omit<WebhookEndpointRecord, 'secret' | 'authentication'>;
+
+export interface CreateWebhookEndpointRequest {
+    name: string;
+    url: string;
+    events: AppWebhookEvent[];
+    headers?: Record<string, string>;
+    authentication?: AppWebhookEndpoint['authentication'];
+    description?: string;
+}
+
+// ============================================================================
+// EVENT AND DELIVERY INTERFACES
+// ============================================================================
+
+export interface WebhookEventPayload<T = Record<string, any>> {
+    id: string; // Event ID, stable across redeliveries
+    event: AppWebhookEvent;
+    createdAt: string; // ISO date string
+    data: T;
+}
+
+export type WebhookDeliveryStatus =
+    | 'pending'
+    | 'succeeded'
+    | 'failed';
+
+export interface WebhookDeliveryAttempt {
+    attemptedAt: string; // ISO date string
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+/**
+ * One delivery of an event to an endpoint, with every attempt made
+ */
+export interface WebhookDelivery {
+    id: string;
+    endpointId: string;
+    endpointUrl: string;
+    event: AppWebhookEvent;
+    payload: WebhookEventPayload;
+    status: WebhookDeliveryStatus;
+    attempts: WebhookDeliveryAttempt[];
+    redeliveryOf?: string; // Delivery ID this one repeats
+    createdAt: string; // ISO date string
+    updatedAt: string; // ISO date string
+    completedAt?: string;
+}
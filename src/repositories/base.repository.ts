@@ -158,6 +158,13 @@ export abstract class BaseFirestoreRepository<T> implements BaseRepository<T> {
             }
 
             // Apply pagination
+            if (options.cursor) {
+                const cursorDoc = await this.firestore.collection(this.collectionName).doc(options.cursor).get();
+                if (cursorDoc.exists) {
+                    query = query.startAfter(cursorDoc);
+                }
+            }
+
             if (options.offset) {
                 query = query.offset(options.offset);
             }
@@ -177,6 +184,7 @@ export abstract class BaseFirestoreRepository<T> implements BaseRepository<T> {
             return {
                 data: docs,
                 hasMore,
+                ...(hasMore && options.limit && {nextCursor: snapshot.docs[options.limit - 1].id}),
                 totalCount: undefined, // We'd need a separate count query for this
             };
         } catch (error) {
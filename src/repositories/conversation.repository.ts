@@ -9,6 +9,7 @@ import type {
     ProcessingLogEntry
 } from '../interfaces/conversation.interface';
 import {logger} from '../utils/logger.util';
+import {normalizeLanguageCode} from '../utils/language.util';
 import admin from "firebase-admin";
 
 /**
@@ -57,7 +58,7 @@ export class ConversationRepository extends BaseFirestoreRepository<Conversation
             // Build filters
             const filters: Record<string, any> = {};
             if (status) filters.status = status;
-            if (language) filters['metadata.language'] = language;
+            if (language) filters['metadata.language'] = normalizeLanguageCode(language);
 
             // Date range filtering (needs special handling in Firestore)
             let query: admin.firestore.Query<admin.firestore.DocumentData> = this.firestore.collection(this.collectionName);
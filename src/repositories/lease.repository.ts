@@ -0,0 +1,63 @@
+// src/repositories/lease.repository.ts
+import {BaseFirestoreRepository} from "./base.repository";
+import {SchedulerLease} from "../interfaces/processing.interface";
+import {logger} from "../utils/logger.util";
+
+export class LeaseRepository extends BaseFirestoreRepository<SchedulerLease> {
+    constructor() {
+        super('scheduler_leases');
+    }
+
+    /**
+     * Acquire or renew a lease. Succeeds when the lease is free, expired or
+     * already held by the same holder.
+     */
+    async tryAcquire(name: string, holderId: string, ttlMs: number): Promise<boolean> {
+        try {
+            const docRef = this.firestore.collection(this.collectionName).doc(name);
+
+            return await this.firestore.runTransaction(async transaction => {
+                const doc = await transaction.get(docRef);
+                const current = doc.exists ? doc.data() as SchedulerLease : null;
+                const now = new Date();
+
+                if (current && current.holderId !== holderId && new Date(current.expiresAt) > now) {
+                    return false;
+                }
+
+                const lease: SchedulerLease = {
+                    id: name,
+                    holderId,
+                    acquiredAt: now.toISOString(),
+                    expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+                };
+                transaction.set(docRef, lease);
+                return true;
+            });
+        } catch (error) {
+            logger.error(`Error acquiring lease: ${name}`, error);
+            throw new Error(`Failed to acquire lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Release a lease if it is still held by the holder
+     */
+    async release(name: string, holderId: string): Promise<void> {
+        try {
+            const docRef = this.firestore.collection(this.collectionName).doc(name);
+
+            await this.firestore.runTransaction(async transaction => {
+                const doc = await transaction.get(docRef);
+                if (doc.exists && (doc.data() as SchedulerLease).holderId === holderId) {
+                    transaction.delete(docRef);
+                }
+            });
+        } catch (error) {
+            logger.error(`Error releasing lease: ${name}`, error);
+            throw new Error(`Failed to release lease: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
+
+export const leaseRepository = new LeaseRepository();
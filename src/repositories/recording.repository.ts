@@ -1,6 +1,11 @@
+import {firestore} from 'firebase-admin';
 import {BaseFirestoreRepository} from "../repositories/base.repository";
 import {Recording} from "../interfaces/user.interface";
 import {logger} from "../utils/logger.util";
+import type {AudioProcessingPipeline} from "../interfaces/audio.interface";
+import type {ProcessingError} from "../interfaces/conversation.interface";
+import type {ConversationVersion} from "../interfaces/processing.interface";
+import type {FilterOptions, PaginatedQuery} from "../interfaces/repository.interface";
 
 export class RecordingRepository extends BaseFirestoreRepository<Recording> {
     constructor() {
@@ -29,6 +34,39 @@ export class RecordingRepository extends BaseFirestoreRepository<Recording> {
         }
     }
 
+    /**
+     * Create a recording with a fixed ID unless it already exists.
+     * Returns false when the document is already there, which makes repeated
+     * webhook deliveries for the same recording idempotent.
+     */
+    async createRecordingIfAbsent(
+        recordingId: string,
+        recording: Omit<Recording, 'id' | 'createdAt' | 'updatedAt'>
+    ): Promise<boolean> {
+        try {
+            const docRef = this.firestore.collection(this.collectionName).doc(recordingId);
+
+            await docRef.create({
+                ...this.prepareForStorage(recording as Recording),
+                id: recordingId,
+                createdAt: firestore.FieldValue.serverTimestamp(),
+                updatedAt: firestore.FieldValue.serverTimestamp()
+            });
+
+            logger.info(`Recording created successfully with ID: ${recordingId}`);
+            return true;
+        } catch (error) {
+            // gRPC ALREADY_EXISTS
+            if ((error as any)?.code === 6) {
+                logger.info(`Recording already exists, skipping create: ${recordingId}`);
+                return false;
+            }
+
+            logger.error('Error creating recording:', error);
+            throw new Error(`Failed to create recording: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
     /**
      * Find recordings by user ID
      */
@@ -79,18 +117,139 @@ export class RecordingRepository extends BaseFirestoreRepository<Recording> {
     }
 
     /**
-     * Get recordings ready for processing (pending status)
+     * Apply processing updates only if the recording still has the status and
+     * job the caller read, so concurrent requests cannot both start a run.
+     * Returns false when the recording changed in between.
+     */
+    async claimForProcessing(
+        recordingId: string,
+        expected: Pick<Recording, 'transcriptionStatus' | 'processingJobId'>,
+        updates: Partial<Recording>
+    ): Promise<boolean> {
+        try {
+            const docRef = this.firestore.collection(this.collectionName).doc(recordingId);
+
+            return await this.firestore.runTransaction(async transaction => {
+                const doc = await transaction.get(docRef);
+                const current = doc.exists ? doc.data() as Recording : null;
+
+                if (!current ||
+                    current.transcriptionStatus !== expected.transcriptionStatus ||
+                    (current.processingJobId || null) !== (expected.processingJobId || null)) {
+                    return false;
+                }
+
+                transaction.update(docRef, {
+                    ...this.prepareForStorage(updates as Recording),
+                    updatedAt: firestore.FieldValue.serverTimestamp()
+                });
+                return true;
+            });
+        } catch (error) {
+            logger.error('Error claiming recording for processing:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Save processing pipeline state for a recording
+     */
+    async updatePipeline(
+        recordingId: string,
+        pipeline: AudioProcessingPipeline,
+        processingError?: ProcessingError
+    ): Promise<void> {
+        try {
+            // Error is cleared while a run is in progress or succeeded
+            await this.update(recordingId, {
+                processingPipeline: pipeline,
+                processingError: processingError || null
+            } as unknown as Partial<Recording>);
+        } catch (error) {
+            logger.error('Error updating recording processing pipeline:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add or replace a conversation version (matched by version number)
      */
-    async getPendingRecordings(limit: number = 10): Promise<Recording[]> {
+    async saveConversationVersion(recordingId: string, version: ConversationVersion): Promise<void> {
+        try {
+            const docRef = this.firestore.collection(this.collectionName).doc(recordingId);
+
+            await this.firestore.runTransaction(async transaction => {
+                const doc = await transaction.get(docRef);
+                if (!doc.exists) {
+                    throw new Error(`Recording not found: ${recordingId}`);
+                }
+
+                const versions: ConversationVersion[] = doc.data()?.conversationVersions || [];
+                const updated = versions.filter(v => v.version !== version.version);
+                updated.push(version);
+                updated.sort((a, b) => a.version - b.version);
+
+                transaction.update(docRef, {
+                    conversationVersions: updated,
+                    updatedAt: firestore.FieldValue.serverTimestamp()
+                });
+            });
+        } catch (error) {
+            logger.error('Error saving conversation version:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Listen for changes to a recording. Returns a function that stops listening.
+     */
+    watchRecording(
+        recordingId: string,
+        onChange: (recording: Recording | null) => void,
+        onError: (error: Error) => void
+    ): () => void {
+        return this.firestore.collection(this.collectionName).doc(recordingId).onSnapshot(
+            snapshot => {
+                const data = snapshot.data();
+                onChange(data ? this.transformFromStorage(data) : null);
+            },
+            onError
+        );
+    }
+
+    /**
+     * Get recordings ready for processing (pending status, oldest first).
+     * Continue after the previous page by passing its nextCursor.
+     */
+    async getPendingRecordings(
+        limit: number = 10,
+        filters: FilterOptions = {},
+        cursor?: string
+    ): Promise<PaginatedQuery<Recording>> {
+        try {
+            return await this.findMany(
+                { ...filters, transcriptionStatus: 'pending' },
+                { limit, orderBy: 'createdAt', orderDirection: 'asc', cursor }
+            );
+        } catch (error) {
+            logger.error('Error getting pending recordings:', error);
+            throw new Error(`Failed to get pending recordings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Get recordings in processing status (oldest first)
+     */
+    async getProcessingRecordings(limit: number = 50): Promise<Recording[]> {
         try {
             const result = await this.findMany(
-                { transcriptionStatus: 'pending' },
+                { transcriptionStatus: 'processing' },
                 { limit, orderBy: 'createdAt', orderDirection: 'asc' }
             );
             return result.data;
         } catch (error) {
-            logger.error('Error getting pending recordings:', error);
-            throw new Error(`Failed to get pending recordings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            logger.error('Error getting processing recordings:', error);
+            throw new Error(`Failed to get processing recordings: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
@@ -138,6 +297,29 @@ export class RecordingRepository extends BaseFirestoreRepository<Recording> {
             throw new Error(`Failed to get recording stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
+
+    /**
+     * Convert nested pipeline timestamps back to Date objects
+     */
+    protected override transformFromStorage(data: Record<string, any>): Recording {
+        const recording = super.transformFromStorage(data);
+        const pipeline = recording.processingPipeline;
+
+        if (pipeline) {
+            const toDate = (value: any): Date | undefined =>
+                value && typeof value.toDate === 'function' ? value.toDate() : value;
+
+            pipeline.startTime = toDate(pipeline.startTime);
+            pipeline.endTime = toDate(pipeline.endTime);
+            pipeline.steps = (pipeline.steps || []).map(step => ({
+                ...step,
+                startTime: toDate(step.startTime),
+                endTime: toDate(step.endTime)
+            }));
+        }
+
+        return recording;
+    }
 }
 
 export const recordingRepository = new RecordingRepository();
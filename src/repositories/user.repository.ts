@@ -1,6 +1,13 @@
 // src/repositories/user.repository.ts
+import {firestore} from 'firebase-admin';
 import {BaseFirestoreRepository} from "./base.repository";
-import {User} from "../interfaces/user.interface";
+import {
+    SubscriptionHelper,
+    UpdateUserPreferencesRequest,
+    User,
+    UserContact,
+    VocabularyList
+} from "../interfaces/user.interface";
 import {logger} from "../utils/logger.util";
 
 export class UserRepository extends BaseFirestoreRepository<User> {
@@ -273,6 +280,103 @@ export class UserRepository extends BaseFirestoreRepository<User> {
         }
     }
 
+    /**
+     * Update processing preferences. A null value removes the preference
+     * so the plan default applies again.
+     */
+    async updatePreferences(
+        userId: string,
+        preferenceUpdates: UpdateUserPreferencesRequest['preferences']
+    ): Promise<NonNullable<User['preferences']>> {
+        try {
+            const user = await this.findById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+
+            const updatedPreferences: Record<string, any> = {...user.preferences};
+            Object.entries(preferenceUpdates).forEach(([key, value]) => {
+                if (value === null) {
+                    delete updatedPreferences[key];
+                } else if (value !== undefined) {
+                    updatedPreferences[key] = value;
+                }
+            });
+
+            await this.update(userId, {
+                preferences: updatedPreferences
+            } as Partial<User>);
+
+            logger.info(`User preferences updated for ID: ${userId}`);
+            return updatedPreferences;
+        } catch (error) {
+            logger.error('Error updating preferences:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the user's vocabulary lists
+     */
+    async updateVocabulary(userId: string, vocabulary: VocabularyList[]): Promise<void> {
+        try {
+            await this.update(userId, {vocabulary} as Partial<User>);
+            logger.info(`User vocabulary updated for ID: ${userId} (${vocabulary.length} lists)`);
+        } catch (error) {
+            logger.error('Error updating vocabulary:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the contacts synced from the device
+     */
+    async updateContacts(userId: string, contacts: UserContact[]): Promise<void> {
+        try {
+            await this.update(userId, {contacts} as Partial<User>);
+            logger.info(`User contacts updated for ID: ${userId} (${contacts.length} contacts)`);
+        } catch (error) {
+            logger.error('Error updating contacts:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Add processing spend to the user's monthly usage, starting a new period
+     * when the month has rolled over
+     */
+    async recordProcessingUsage(uid: string, cost: number, minutes: number): Promise<void> {
+        try {
+            const user = await this.findByUid(uid);
+            if (!user) {
+                logger.warn(`Cannot record processing usage, user not found: ${uid}`);
+                return;
+            }
+
+            const docRef = this.firestore.collection(this.collectionName).doc(user.id);
+            await this.firestore.runTransaction(async transaction => {
+                const doc = await transaction.get(docRef);
+                const usage: User['usage'] = doc.data()?.usage;
+                const now = new Date();
+                const current = SubscriptionHelper.isCurrentUsagePeriod(usage, now);
+
+                transaction.update(docRef, {
+                    usage: {
+                        totalRecordings: usage?.totalRecordings || 0,
+                        totalMinutesRecorded: usage?.totalMinutesRecorded || 0,
+                        monthlyMinutesUsed: (current ? usage?.monthlyMinutesUsed || 0 : 0) + minutes,
+                        monthlyProcessingCost: Math.round(((current ? usage?.monthlyProcessingCost || 0 : 0) + cost) * 10000) / 10000,
+                        lastMonthlyReset: current ? usage!.lastMonthlyReset : now.toISOString()
+                    },
+                    updatedAt: firestore.FieldValue.serverTimestamp()
+                });
+            });
+        } catch (error) {
+            logger.error('Error recording processing usage:', error);
+            throw error;
+        }
+    }
+
     /**
      * Find users by subscription status
      */
@@ -0,0 +1,32 @@
+// src/repositories/webhook-delivery.repository.ts
+import {BaseFirestoreRepository} from "./base.repository";
+import {WebhookDelivery, WebhookDeliveryStatus} from "../interfaces/webhook.interface";
+import {logger} from "../utils/logger.util";
+
+export class WebhookDeliveryRepository extends BaseFirestoreRepository<WebhookDelivery> {
+    constructor() {
+        super('webhook_deliveries');
+    }
+
+    /**
+     * Find deliveries, newest first
+     */
+    async findDeliveries(
+        filters: { endpointId?: string; event?: string; status?: WebhookDeliveryStatus },
+        options: { limit?: number; offset?: number } = {}
+    ): Promise<{ deliveries: WebhookDelivery[]; hasMore: boolean }> {
+        try {
+            const result = await this.findMany(filters, {
+                ...options,
+                orderBy: 'createdAt',
+                orderDirection: 'desc'
+            });
+            return {deliveries: result.data, hasMore: result.hasMore};
+        } catch (error) {
+            logger.error('Error finding webhook deliveries:', error);
+            throw new Error(`Failed to find webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
+
+export const webhookDeliveryRepository = new WebhookDeliveryRepository();
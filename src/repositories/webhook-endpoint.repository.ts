@@ -0,0 +1,30 @@
+// src/repositories/webhook-endpoint.repository.ts
+import {BaseFirestoreRepository} from "./base.repository";
+import {WebhookEndpointRecord} from "../interfaces/webhook.interface";
+import {AppWebhookEvent} from "../interfaces/config.interface";
+import {logger} from "../utils/logger.util";
+
+export class WebhookEndpointRepository extends BaseFirestoreRepository<WebhookEndpointRecord> {
+    constructor() {
+        super('webhook_endpoints');
+    }
+
+    /**
+     * Find enabled endpoints subscribed to an event
+     */
+    async findSubscribers(event: AppWebhookEvent): Promise<WebhookEndpointRecord[]> {
+        try {
+            const snapshot = await this.firestore.collection(this.collectionName)
+                .where('enabled', '==', true)
+                .where('events', 'array-contains', event)
+                .get();
+
+            return snapshot.docs.map(doc => this.transformFromStorage(doc.data()));
+        } catch (error) {
+            logger.error('Error finding webhook subscribers:', error);
+            throw new Error(`Failed to find webhook subscribers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+}
+
+export const webhookEndpointRepository = new WebhookEndpointRepository();
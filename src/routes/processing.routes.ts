@@ -1,16 +1,53 @@
 // src/routes/processing.routes.ts
 import {Router} from 'express';
-import { getRecordingProgress, processRecording } from '../controllers/processing.controller';
+import {
+    activateConversationVersion,
+    cancelProcessing,
+    getConversationVersions,
+    getProcessingJob,
+    getRecordingProgress,
+    processRecording,
+    reprocessRecording,
+    streamRecordingProgress
+} from '../controllers/processing.controller';
 
 const router = Router();
 
 /**
- * @route POST /api/processing/conversations/:conversationId/process
- * @desc Manually trigger processing for a specific conversation
+ * @route POST /api/processing/recordings/:recordingId/process
+ * @desc Queue a recording for background processing (returns 202 with job ID)
  * @access Admin/Testing
  */
 router.post('/recordings/:recordingId/process', processRecording);
 
+/**
+ * @route POST /api/processing/recordings/:recordingId/cancel
+ * @desc Cancel queued or running processing (records partial cost)
+ * @access Public
+ */
+router.post('/recordings/:recordingId/cancel', cancelProcessing);
+
+/**
+ * @route POST /api/processing/recordings/:recordingId/reprocess
+ * @desc Reprocess a recording with a different tier, language or speaker hints (new conversation version)
+ * @access Admin/Testing
+ */
+router.post('/recordings/:recordingId/reprocess', reprocessRecording);
+
+/**
+ * @route GET /api/processing/recordings/:recordingId/versions
+ * @desc List conversation versions and the settings that produced each
+ * @access Public
+ */
+router.get('/recordings/:recordingId/versions', getConversationVersions);
+
+/**
+ * @route PUT /api/processing/recordings/:recordingId/versions/:version/activate
+ * @desc Switch the active conversation version
+ * @access Public
+ */
+router.put('/recordings/:recordingId/versions/:version/activate', activateConversationVersion);
+
 /**
  * @route GET /api/processing/conversations/:conversationId/progress
  * @desc Get processing progress for a specific conversation
@@ -18,4 +55,18 @@ router.post('/recordings/:recordingId/process', processRecording);
  */
 router.get('/recordings/:recordingId/progress', getRecordingProgress);
 
+/**
+ * @route GET /api/processing/recordings/:recordingId/progress/stream
+ * @desc Stream processing progress as Server-Sent Events until processing finishes
+ * @access Public
+ */
+router.get('/recordings/:recordingId/progress/stream', streamRecordingProgress);
+
+/**
+ * @route GET /api/processing/jobs/:jobId
+ * @desc Get background processing job status
+ * @access Public
+ */
+router.get('/jobs/:jobId', getProcessingJob);
+
 export {router as processingRoutes};
@@ -2,8 +2,9 @@
 
 import {Router} from 'express';
 import multer from 'multer';
-import {getRecording, listUserRecordings, uploadRecording,} from '../controllers/recording.controller';
+import {getRecording, getRecordingWords, listUserRecordings, uploadRecording,} from '../controllers/recording.controller';
 import {processRecording} from '../controllers/processing.controller';
+import {getDurationEstimate, getRecordingEstimate} from '../controllers/estimate.controller';
 
 const router = Router();
 
@@ -47,6 +48,24 @@ const upload = multer({
  */
 router.post('/upload', upload.single('audio'), uploadRecording);
 
+/**
+ * @route GET /api/v1/recordings/estimate
+ * @desc Estimate cost per tier before upload
+ * @access Public
+ * @query { durationSeconds: number, userId?: string, maxBudget?: number, minSpeakers?: number,
+ *          accuracyPriority?: 'low' | 'medium' | 'high', privacyRequired?: boolean, wordTimings?: boolean }
+ */
+router.get('/estimate', getDurationEstimate);
+
+/**
+ * @route GET /api/v1/recordings/recordings/:recordingId/estimate
+ * @desc Estimate cost per tier, recommended tier and projected month-end spend for a recording
+ * @access Public
+ * @query { maxBudget?: number, minSpeakers?: number, accuracyPriority?: 'low' | 'medium' | 'high',
+ *          privacyRequired?: boolean, wordTimings?: boolean }
+ */
+router.get('/recordings/:recordingId/estimate', getRecordingEstimate);
+
 /**
  * @route GET /api/v1/conversations/recordings/:recordingId
  * @desc Get recording by ID
@@ -54,6 +73,14 @@ router.post('/upload', upload.single('audio'), uploadRecording);
  */
 router.get('/recordings/:recordingId', getRecording);
 
+/**
+ * @route GET /api/v1/recordings/recordings/:recordingId/words
+ * @desc Word timeline (word, times, confidence, speaker) for a time range of the active or given version
+ * @access Public
+ * @query { from?: number, to?: number, version?: number } Times in seconds
+ */
+router.get('/recordings/:recordingId/words', getRecordingWords);
+
 /**
  * @route GET /api/v1/conversations/users/:userId/recordings
  * @desc List all recordings for a user
@@ -64,7 +91,7 @@ router.get('/users/:userId/recordings', listUserRecordings);
 
 /**
  * @route POST /api/v1/conversations/recordings/:recordingId/process
- * @desc Process recording into conversation (works for both Twilio and uploaded recordings)
+ * @desc Queue recording for processing into conversation (works for both Twilio and uploaded recordings)
  * @access Public
  */
 router.post('/recordings/:recordingId/process', processRecording);
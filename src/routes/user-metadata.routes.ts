@@ -1,8 +1,14 @@
 import {Router} from 'express';
 import {
     createOrUpdateUser,
+    createVocabularyList,
+    deleteVocabularyList,
     getUserByPhone,
+    getVocabulary,
+    updateUserContacts,
+    updateUserPreferences,
     updateUserTwilio,
+    updateVocabularyList,
 } from '../controllers/user-metadata.controller';
 
 const router = Router();
@@ -10,6 +16,14 @@ const router = Router();
 // User metadata management (called by iOS app)
 router.post('/users', createOrUpdateUser);
 router.patch('/users/twilio', updateUserTwilio);
+router.patch('/users/preferences', updateUserPreferences);
 router.get('/users/phone/:phoneNumber', getUserByPhone);
 
+// Custom vocabulary merged into speech recognition
+router.get('/users/:uid/vocabulary', getVocabulary);
+router.post('/users/:uid/vocabulary', createVocabularyList);
+router.patch('/users/:uid/vocabulary/:listId', updateVocabularyList);
+router.delete('/users/:uid/vocabulary/:listId', deleteVocabularyList);
+router.put('/users/:uid/contacts', updateUserContacts);
+
 export {router as userMetadataRoutes};
@@ -0,0 +1,56 @@
+// src/routes/webhook.routes.ts
+import {Router} from 'express';
+import {
+    createWebhookEndpoint,
+    deleteWebhookEndpoint,
+    getWebhookDeliveries,
+    getWebhookDelivery,
+    getWebhookEndpoints,
+    redeliverWebhook
+} from '../controllers/webhook.controller';
+
+const router = Router();
+
+/**
+ * @route POST /api/v1/webhooks/endpoints
+ * @desc Register a webhook endpoint (returns its signing secret once)
+ * @access Admin
+ */
+router.post('/endpoints', createWebhookEndpoint);
+
+/**
+ * @route GET /api/v1/webhooks/endpoints
+ * @desc List registered webhook endpoints
+ * @access Admin
+ */
+router.get('/endpoints', getWebhookEndpoints);
+
+/**
+ * @route DELETE /api/v1/webhooks/endpoints/:endpointId
+ * @desc Delete a webhook endpoint
+ * @access Admin
+ */
+router.delete('/endpoints/:endpointId', deleteWebhookEndpoint);
+
+/**
+ * @route GET /api/v1/webhooks/deliveries
+ * @desc List deliveries (filters: endpointId, event, status; paginated)
+ * @access Admin
+ */
+router.get('/deliveries', getWebhookDeliveries);
+
+/**
+ * @route GET /api/v1/webhooks/deliveries/:deliveryId
+ * @desc Get a delivery with every attempt
+ * @access Admin
+ */
+router.get('/deliveries/:deliveryId', getWebhookDelivery);
+
+/**
+ * @route POST /api/v1/webhooks/deliveries/:deliveryId/redeliver
+ * @desc Send a delivery again to the same endpoint
+ * @access Admin
+ */
+router.post('/deliveries/:deliveryId/redeliver', redeliverWebhook);
+
+export {router as webhookRoutes};
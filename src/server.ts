@@ -14,6 +14,9 @@ import {userMetadataRoutes} from "./routes/user-metadata.routes";
 import compression = require('compression');
 import {twilioRoutes} from "./routes/twilio.routes";
 import {revenuecatRoutes} from "./routes/revenuecat.routes";
+import {processingQueueService} from "./services/processing-queue.service";
+import {recordingSweeperService} from "./services/recording-sweeper.service";
+import {webhookRoutes} from "./routes/webhook.routes";
 
 // Load environment variables
 config();
@@ -48,6 +51,7 @@ app.use('/api/v1/recordings', recordingRoutes);
 app.use('/api/v1/processing', processingRoutes);
 app.use('/api/v1/twilio', twilioRoutes);
 app.use('/api/v1/revenue-cat', revenuecatRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
 app.use('/api/v1', userMetadataRoutes);
 
 app.use('/api/v1', (req, res) => {
@@ -59,7 +63,8 @@ app.use('/api/v1', (req, res) => {
             health: '/health',
             docs: '/api/docs',
             conversations: '/api/v1/conversations',
-            processing: '/api/v1/processing'
+            processing: '/api/v1/processing',
+            webhooks: '/api/v1/webhooks'
         }
     });
 });
@@ -76,6 +81,10 @@ async function startServer() {
         await databaseService.initialize();
         logger.info('Database service initialized successfully');
 
+        // Start background processing workers
+        processingQueueService.start();
+        recordingSweeperService.start();
+
         // THEN start the HTTP server
         const server = app.listen(PORT, () => {
             logger.info(`🚀 Conversation Parser Backend started on port ${PORT}`);
@@ -83,22 +92,29 @@ async function startServer() {
             logger.info(`🌐 Health check: http://localhost:${PORT}/health`);
         });
 
-        // Graceful shutdown
-        process.on('SIGTERM', () => {
-            logger.info('SIGTERM received, shutting down gracefully');
-            server.close(() => {
-                logger.info('Process terminated');
-                process.exit(0);
-            });
-        });
+        // Graceful shutdown. Workers stop first: running jobs are interrupted and
+        // left for the sweeper to requeue, since the platform kills the process
+        // a few seconds after the signal.
+        const shutdown = (signal: NodeJS.Signals): void => {
+            logger.info(`${signal} received, shutting down gracefully`);
+            recordingSweeperService.stop();
+            const stopped = processingQueueService.stop();
 
-        process.on('SIGINT', () => {
-            logger.info('SIGINT received, shutting down gracefully');
-            server.close(() => {
-                logger.info('Process terminated');
-                process.exit(0);
-            });
-        });
+            server.close();
+            server.closeIdleConnections();
+
+            stopped
+                .catch(error => logger.error('Failed to stop processing workers:', error))
+                .finally(() => {
+                    // Progress streams stay open for up to an hour; end them instead of waiting
+                    server.closeAllConnections();
+                    logger.info('Process terminated');
+                    process.exit(0);
+                });
+        };
+
+        process.on('SIGTERM', () => shutdown('SIGTERM'));
+        process.on('SIGINT', () => shutdown('SIGINT'));
 
     } catch (error) {
         logger.error('Failed to start server:', error);
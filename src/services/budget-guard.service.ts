@@ -0,0 +1,184 @@
+// src/services/budget-guard.service.ts
+
+import {
+    COST_OPTIMIZATION_TIERS,
+    DEFAULT_OPTIMIZATION_SETTINGS,
+    getBudgetExceededAction,
+    PLAN_BUDGET_LIMITS
+} from '../config/cost-optimization.config';
+import {logger} from '../utils/logger.util';
+import {SubscriptionHelper} from '../interfaces/user.interface';
+import type {User} from '../interfaces/user.interface';
+import type {CostOptimizationConfig} from '../interfaces/conversation.interface';
+import type {
+    BudgetCheckResult,
+    BudgetLimitCode,
+    BudgetLimits,
+    ProcessingJobOptions
+} from '../interfaces/processing.interface';
+
+type Tier = CostOptimizationConfig['tier'];
+
+interface BudgetConstraint {
+    code: BudgetLimitCode;
+    limit: number;
+    describe: (cost: number) => string;
+}
+
+/**
+ * Checks a run's estimated cost against the request budget, the plan's
+ * per-request limit and what is left of the plan's monthly limit
+ */
+export class BudgetGuardService {
+    private static instance: BudgetGuardService;
+
+    private constructor() {
+    }
+
+    static getInstance(): BudgetGuardService {
+        if (!BudgetGuardService.instance) {
+            BudgetGuardService.instance = new BudgetGuardService();
+        }
+        return BudgetGuardService.instance;
+    }
+
+    /**
+     * Decide whether a run may proceed and with which tier.
+     * `estimateCost` returns the USD estimate for a tier (undefined = requested settings).
+     */
+    evaluate(
+        user: User | null,
+        options: ProcessingJobOptions | undefined,
+        estimateCost: (tier?: Tier) => number
+    ): BudgetCheckResult {
+        const limits = this.getLimits(user, options);
+        const constraints = this.getConstraints(limits);
+        const requestedTier = options?.tier;
+        const requestedCost = estimateCost(requestedTier);
+
+        const result: BudgetCheckResult = {
+            allowed: true,
+            tier: requestedTier,
+            requestedTier,
+            downgraded: false,
+            estimatedCost: requestedCost,
+            requestedCost,
+            limits
+        };
+
+        const violated = constraints.find(constraint => requestedCost > constraint.limit);
+        if (!violated) {
+            return this.withAlert(result, limits, user);
+        }
+
+        if ((options?.onBudgetExceeded || getBudgetExceededAction()) === 'downgrade') {
+            for (const tier of this.getDowngradeCandidates(requestedTier)) {
+                const cost = estimateCost(tier);
+                if (cost < requestedCost && constraints.every(constraint => cost <= constraint.limit)) {
+                    logger.info(`Budget guard downgraded tier ${requestedTier || 'DEFAULT'} -> ${tier}`, {
+                        userId: user?.uid,
+                        requestedCost,
+                        estimatedCost: cost,
+                        limit: violated.code
+                    });
+
+                    return this.withAlert({
+                        ...result,
+                        tier,
+                        downgraded: true,
+                        estimatedCost: cost
+                    }, limits, user);
+                }
+            }
+        }
+
+        logger.warn(`Budget guard rejected processing: ${violated.code}`, {userId: user?.uid, requestedCost});
+
+        return {
+            ...result,
+            allowed: false,
+            error: {
+                code: violated.code,
+                message: violated.describe(requestedCost),
+                limit: violated.limit
+            }
+        };
+    }
+
+    /**
+     * Limits that apply to a user's next run
+     */
+    getLimits(user: User | null, options?: Pick<ProcessingJobOptions, 'maxBudget'>): BudgetLimits {
+        const plan = user?.subscription?.plan || 'basic';
+        const planLimits = PLAN_BUDGET_LIMITS[plan] || PLAN_BUDGET_LIMITS.basic;
+        const monthlySpent = user ? SubscriptionHelper.getMonthlyProcessingCost(user) : 0;
+
+        return {
+            plan,
+            ...(options?.maxBudget !== undefined && {maxBudget: options.maxBudget}),
+            maxCostPerRequest: planLimits.maxCostPerRequest,
+            monthlyCostLimit: planLimits.monthlyCostLimit,
+            monthlySpent: this.round(monthlySpent),
+            monthlyRemaining: this.round(Math.max(0, planLimits.monthlyCostLimit - monthlySpent))
+        };
+    }
+
+    private getConstraints(limits: BudgetLimits): BudgetConstraint[] {
+        const constraints: BudgetConstraint[] = [];
+
+        if (limits.maxBudget !== undefined) {
+            constraints.push({
+                code: 'REQUEST_BUDGET_EXCEEDED',
+                limit: limits.maxBudget,
+                describe: cost => `Estimated cost $${cost.toFixed(3)} exceeds the request budget of $${limits.maxBudget!.toFixed(2)}`
+            });
+        }
+
+        constraints.push({
+            code: 'PLAN_REQUEST_LIMIT_EXCEEDED',
+            limit: limits.maxCostPerRequest,
+            describe: cost => `Estimated cost $${cost.toFixed(3)} exceeds the ${limits.plan} plan limit of $${limits.maxCostPerRequest.toFixed(2)} per recording`
+        }, {
+            code: 'MONTHLY_BUDGET_EXCEEDED',
+            limit: limits.monthlyRemaining,
+            describe: cost => `Estimated cost $${cost.toFixed(3)} exceeds the remaining monthly budget of ` +
+                `$${limits.monthlyRemaining.toFixed(2)} ($${limits.monthlySpent.toFixed(2)} of $${limits.monthlyCostLimit.toFixed(2)} used)`
+        });
+
+        return constraints;
+    }
+
+    /**
+     * Tiers cheaper than the requested one, most capable first
+     */
+    private getDowngradeCandidates(requestedTier?: Tier): Tier[] {
+        const ceiling = requestedTier
+            ? COST_OPTIMIZATION_TIERS[requestedTier].estimatedCostMultiplier
+            : Infinity;
+
+        return (Object.keys(COST_OPTIMIZATION_TIERS) as Tier[])
+            .filter(tier => COST_OPTIMIZATION_TIERS[tier].estimatedCostMultiplier < ceiling)
+            .sort((a, b) => COST_OPTIMIZATION_TIERS[b].estimatedCostMultiplier - COST_OPTIMIZATION_TIERS[a].estimatedCostMultiplier);
+    }
+
+    private withAlert(result: BudgetCheckResult, limits: BudgetLimits, user: User | null): BudgetCheckResult {
+        const projected = limits.monthlySpent + result.estimatedCost;
+        const threshold = limits.monthlyCostLimit * DEFAULT_OPTIMIZATION_SETTINGS.alertThreshold;
+
+        if (!DEFAULT_OPTIMIZATION_SETTINGS.enableCostAlerts || projected < threshold) {
+            return result;
+        }
+
+        const alert = `Monthly processing spend will reach $${projected.toFixed(2)} ` +
+            `(${Math.round(projected / limits.monthlyCostLimit * 100)}% of the $${limits.monthlyCostLimit.toFixed(2)} ${limits.plan} limit)`;
+        logger.warn(`Budget alert: ${alert}`, {userId: user?.uid});
+
+        return {...result, alert};
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 10000) / 10000;
+    }
+}
+
+export const budgetGuardService = BudgetGuardService.getInstance();
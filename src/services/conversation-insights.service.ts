@@ -0,0 +1,204 @@
+// src/services/conversation-insights.service.ts
+
+import type {
+    ConversationFlow,
+    ConversationInsights,
+    Message,
+    SpeakingTimeDistribution,
+    Speaker
+} from '../interfaces/conversation.interface';
+
+/**
+ * Turn-taking statistics used to classify the conversation flow
+ */
+interface TurnStatistics {
+    activeSpeakers: number; // Speakers with a meaningful share of speaking time
+    dominantShare: number; // Largest share of speaking time (0-1)
+    otherTurnShare: number; // Share of turns taken by everyone but the dominant speaker
+    questionRatio: number; // Questions per message
+    topQuestionerShare: number; // Share of questions asked by the most frequent asker
+    topQuestionerTimeShare: number; // That speaker's share of speaking time
+    answeredQuestionRatio: number; // Questions followed by another speaker's turn
+}
+
+/**
+ * Conversation-level statistics computed from parsed messages and speakers
+ */
+export class ConversationInsightsService {
+    private static instance: ConversationInsightsService;
+
+    // Flow classification thresholds
+    private readonly MONOLOGUE_SHARE = 0.85;
+    private readonly MONOLOGUE_MAX_OTHER_TURNS = 0.25;
+    private readonly ACTIVE_SPEAKER_SHARE = 0.05;
+    private readonly QUESTION_HEAVY_RATIO = 0.2;
+    private readonly INTERVIEWER_QUESTION_SHARE = 0.75;
+    private readonly INTERVIEWER_MAX_TIME_SHARE = 0.4;
+    private readonly ANSWERED_QUESTION_RATIO = 0.5;
+
+    private constructor() {
+    }
+
+    static getInstance(): ConversationInsightsService {
+        if (!ConversationInsightsService.instance) {
+            ConversationInsightsService.instance = new ConversationInsightsService();
+        }
+        return ConversationInsightsService.instance;
+    }
+
+    /**
+     * Generate counts, message length stats, speaking time distribution and flow
+     */
+    generateInsights(speakers: Speaker[], messages: Message[]): ConversationInsights {
+        const longest = messages.reduce<Message | null>(
+            (current, message) => !current || message.wordCount > current.wordCount ? message : current,
+            null
+        );
+        const totalWords = messages.reduce((sum, message) => sum + message.wordCount, 0);
+        const speakingTimeDistribution = this.getSpeakingTimeDistribution(speakers, messages);
+
+        return {
+            totalMessages: messages.length,
+            questionCount: messages.filter(message => message.messageType === 'question').length,
+            responseCount: messages.filter(message => message.messageType === 'response').length,
+            statementCount: messages.filter(message => message.messageType === 'statement').length,
+            averageMessageLength: messages.length > 0 ? this.round(totalWords / messages.length, 1) : 0,
+            longestMessage: {
+                messageId: longest?.messageId || '',
+                length: longest?.wordCount || 0
+            },
+            conversationFlow: this.classifyFlow(messages, speakingTimeDistribution),
+            speakingTimeDistribution
+        };
+    }
+
+    /**
+     * Confidence of the whole transcript, weighting each message by its duration
+     */
+    calculateOverallConfidence(messages: Message[]): number {
+        if (messages.length === 0) {
+            return 0;
+        }
+
+        let weightedSum = 0;
+        let totalDuration = 0;
+
+        for (const message of messages) {
+            const duration = Math.max(0, message.endTime - message.startTime);
+            weightedSum += message.confidence * duration;
+            totalDuration += duration;
+        }
+
+        const confidence = totalDuration > 0
+            ? weightedSum / totalDuration
+            : messages.reduce((sum, message) => sum + message.confidence, 0) / messages.length;
+
+        return this.round(confidence, 3);
+    }
+
+    /**
+     * Classify the conversation from turn-taking statistics:
+     * - monologue: one speaker holds the floor and others rarely take a turn
+     * - meeting: three or more active speakers
+     * - interview: one speaker asks most questions while talking little
+     * - question_answer_pattern: frequent questions answered by the other side
+     * - discussion: two speakers trading statements
+     */
+    classifyFlow(messages: Message[], distribution: SpeakingTimeDistribution[]): ConversationFlow {
+        if (messages.length === 0 || distribution.every(entry => entry.totalTime === 0)) {
+            return 'unknown';
+        }
+
+        const stats = this.getTurnStatistics(messages, distribution);
+
+        if (stats.activeSpeakers <= 1 ||
+            (stats.dominantShare >= this.MONOLOGUE_SHARE && stats.otherTurnShare < this.MONOLOGUE_MAX_OTHER_TURNS)) {
+            return 'monologue';
+        }
+
+        if (stats.activeSpeakers >= 3) {
+            return 'meeting';
+        }
+
+        if (stats.questionRatio >= this.QUESTION_HEAVY_RATIO) {
+            if (stats.topQuestionerShare >= this.INTERVIEWER_QUESTION_SHARE &&
+                stats.topQuestionerTimeShare <= this.INTERVIEWER_MAX_TIME_SHARE) {
+                return 'interview';
+            }
+
+            if (stats.answeredQuestionRatio >= this.ANSWERED_QUESTION_RATIO) {
+                return 'question_answer_pattern';
+            }
+        }
+
+        return 'discussion';
+    }
+
+    private getSpeakingTimeDistribution(speakers: Speaker[], messages: Message[]): SpeakingTimeDistribution[] {
+        const times = new Map<string, number>(speakers.map(speaker => [speaker.id, 0]));
+
+        for (const message of messages) {
+            const duration = Math.max(0, message.endTime - message.startTime);
+            times.set(message.speakerId, (times.get(message.speakerId) || 0) + duration);
+        }
+
+        const total = [...times.values()].reduce((sum, time) => sum + time, 0);
+
+        return [...times.entries()].map(([speakerId, totalTime]) => ({
+            speakerId,
+            percentage: total > 0 ? this.round(totalTime / total * 100, 1) : 0,
+            totalTime: this.round(totalTime, 2)
+        }));
+    }
+
+    private getTurnStatistics(messages: Message[], distribution: SpeakingTimeDistribution[]): TurnStatistics {
+        const ordered = [...messages].sort((a, b) => a.order - b.order);
+        const shares = new Map(distribution.map(entry => [entry.speakerId, entry.percentage / 100]));
+        const [dominantSpeaker] = [...shares.entries()].sort((a, b) => b[1] - a[1])[0] || [''];
+
+        let turns = 0;
+        let otherTurns = 0;
+        let questionCount = 0;
+        let answeredQuestions = 0;
+        const questionsBySpeaker = new Map<string, number>();
+
+        ordered.forEach((message, index) => {
+            if (index === 0 || ordered[index - 1].speakerId !== message.speakerId) {
+                turns++;
+                if (message.speakerId !== dominantSpeaker) {
+                    otherTurns++;
+                }
+            }
+
+            if (message.messageType === 'question') {
+                questionCount++;
+                questionsBySpeaker.set(message.speakerId, (questionsBySpeaker.get(message.speakerId) || 0) + 1);
+
+                const next = ordered[index + 1];
+                if (next && next.speakerId !== message.speakerId) {
+                    answeredQuestions++;
+                }
+            }
+        });
+
+        const [topQuestioner, topQuestions] = [...questionsBySpeaker.entries()]
+            .sort((a, b) => b[1] - a[1])[0] || ['', 0];
+
+        return {
+            activeSpeakers: distribution.filter(entry => entry.percentage / 100 >= this.ACTIVE_SPEAKER_SHARE).length,
+            dominantShare: Math.max(0, ...shares.values()),
+            otherTurnShare: turns > 0 ? otherTurns / turns : 0,
+            questionRatio: questionCount / ordered.length,
+            topQuestionerShare: questionCount > 0 ? topQuestions / questionCount : 0,
+            topQuestionerTimeShare: shares.get(topQuestioner) || 0,
+            answeredQuestionRatio: questionCount > 0 ? answeredQuestions / questionCount : 0
+        };
+    }
+
+    private round(value: number, decimals: number): number {
+        const factor = Math.pow(10, decimals);
+        return Math.round(value * factor) / factor;
+    }
+}
+
+export const conversationInsightsService = ConversationInsightsService.getInstance();
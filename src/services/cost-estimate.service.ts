@@ -0,0 +1,140 @@
+// src/services/cost-estimate.service.ts
+
+import {budgetGuardService} from './budget-guard.service';
+import {COST_OPTIMIZATION_TIERS, CostOptimization} from '../config/cost-optimization.config';
+import type {User} from '../interfaces/user.interface';
+import type {CostOptimizationConfig} from '../interfaces/conversation.interface';
+import type {BudgetLimits, CostEstimate, EstimateRequirements, TierEstimate} from '../interfaces/processing.interface';
+
+type Tier = CostOptimizationConfig['tier'];
+
+/**
+ * Price previews so the app can show the cost of each tier before processing
+ */
+export class CostEstimateService {
+    private static instance: CostEstimateService;
+
+    private constructor() {
+    }
+
+    static getInstance(): CostEstimateService {
+        if (!CostEstimateService.instance) {
+            CostEstimateService.instance = new CostEstimateService();
+        }
+        return CostEstimateService.instance;
+    }
+
+    /**
+     * Estimate the cost of processing audio of the given duration for a user
+     */
+    estimate(durationSeconds: number, user: User | null, requirements: EstimateRequirements = {}): CostEstimate {
+        const durationMinutes = durationSeconds / 60;
+        const budget = user ? budgetGuardService.getLimits(user, requirements) : undefined;
+        const allowance = this.getAllowance(budget, requirements);
+
+        const pricing = {wordTimings: requirements.wordTimings};
+
+        const tiers: TierEstimate[] = CostOptimization.compareTiers(durationMinutes, 0, pricing).map(comparison => {
+            const tier = comparison.tier as Tier;
+            const config = COST_OPTIMIZATION_TIERS[tier];
+
+            return {
+                tier,
+                name: config.name,
+                description: config.description,
+                cost: comparison.cost,
+                features: comparison.features,
+                savings: comparison.savings,
+                withinBudget: comparison.cost <= allowance,
+                breakdown: CostOptimization.calculateCost(durationMinutes, tier, 0, pricing).breakdown
+            };
+        });
+
+        const {recommendedTier, recommendationReason} = this.recommend(tiers, requirements, allowance);
+        const recommendedCost = tiers.find(estimate => estimate.tier === recommendedTier)!.cost;
+
+        return {
+            durationSeconds,
+            durationMinutes: Math.round(durationMinutes * 100) / 100,
+            currency: 'USD',
+            tiers,
+            recommendedTier,
+            recommendationReason,
+            requirements,
+            ...(budget && {
+                budget,
+                projection: this.projectMonthEnd(budget, recommendedCost)
+            })
+        };
+    }
+
+    /**
+     * Most the user can spend on this recording
+     */
+    private getAllowance(budget: BudgetLimits | undefined, requirements: EstimateRequirements): number {
+        return Math.min(
+            requirements.maxBudget ?? Infinity,
+            budget?.maxCostPerRequest ?? Infinity,
+            budget?.monthlyRemaining ?? Infinity
+        );
+    }
+
+    /**
+     * Recommend a tier for the requirements, stepping down to the most capable
+     * tier that fits when the recommendation is over budget for this duration
+     */
+    private recommend(
+        tiers: TierEstimate[],
+        requirements: EstimateRequirements,
+        allowance: number
+    ): { recommendedTier: Tier; recommendationReason: string } {
+        const recommended = CostOptimization.recommendTier(requirements) as Tier;
+        const estimate = tiers.find(candidate => candidate.tier === recommended)!;
+
+        if (estimate.withinBudget) {
+            return {
+                recommendedTier: recommended,
+                recommendationReason: `${estimate.name} best matches the requested accuracy, speaker and privacy requirements`
+            };
+        }
+
+        const affordable = tiers
+            .filter(candidate => candidate.withinBudget &&
+                COST_OPTIMIZATION_TIERS[candidate.tier].maxSpeakers >= (requirements.minSpeakers || 1))
+            .sort((a, b) => b.cost - a.cost);
+
+        if (affordable.length > 0) {
+            return {
+                recommendedTier: affordable[0].tier,
+                recommendationReason: `${estimate.name} ($${estimate.cost.toFixed(3)}) exceeds the available budget ` +
+                    `of $${allowance.toFixed(2)}; ${affordable[0].name} is the most capable tier that fits`
+            };
+        }
+
+        return {
+            recommendedTier: recommended,
+            recommendationReason: `No tier fits the available budget of $${allowance.toFixed(2)}; processing would be refused or needs a higher budget`
+        };
+    }
+
+    /**
+     * Project month-end spend from this month's run rate plus this recording
+     */
+    private projectMonthEnd(budget: BudgetLimits, recommendedCost: number): NonNullable<CostEstimate['projection']> {
+        const now = new Date();
+        const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+        const daysElapsed = Math.max(1, now.getUTCDate());
+        const projected = budget.monthlySpent * daysInMonth / daysElapsed + recommendedCost;
+
+        return {
+            monthToDateSpend: budget.monthlySpent,
+            recommendedCost,
+            projectedMonthEndSpend: Math.round(projected * 100) / 100,
+            percentOfMonthlyLimit: Math.round(projected / budget.monthlyCostLimit * 1000) / 10,
+            daysElapsed,
+            daysInMonth
+        };
+    }
+}
+
+export const costEstimateService = CostEstimateService.getInstance();
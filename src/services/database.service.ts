@@ -3,6 +3,7 @@ import { conversationRepository } from '../repositories/conversation.repository'
 import { logger } from '../utils/logger.util';
 import {userRepository} from "../repositories/user.repository";
 import {recordingRepository} from "../repositories/recording.repository";
+import {leaseRepository} from "../repositories/lease.repository";
 
 export class DatabaseService {
     private static instance: DatabaseService;
@@ -38,6 +39,10 @@ export class DatabaseService {
     get recordings() {
         return recordingRepository;
     }
+
+    get leases() {
+        return leaseRepository;
+    }
 }
 
 export const databaseService = DatabaseService.getInstance();
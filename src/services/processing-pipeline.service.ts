@@ -0,0 +1,372 @@
+// src/services/processing-pipeline.service.ts
+
+import {recordingRepository} from '../repositories/recording.repository';
+import {conversationRepository} from '../repositories/conversation.repository';
+import {getStageRetryPolicy} from '../config/processing.config';
+import {classifyError, createCancellationError, toProcessingError} from '../utils/processing-error.util';
+import {withRetry} from '../utils/retry.util';
+import {logger} from '../utils/logger.util';
+import type {AudioProcessingPipeline, ProcessingStep, ProcessingStepError} from '../interfaces/audio.interface';
+import type {Recording} from '../interfaces/user.interface';
+import type {
+    ProcessingError,
+    ProcessingLogEntry,
+    ProcessingProgress,
+    ProcessingStage
+} from '../interfaces/conversation.interface';
+
+/**
+ * Pipeline stages in execution order. Weights approximate the share of total
+ * processing time and drive the reported percentage.
+ */
+export const PIPELINE_STAGES: Array<{ stage: ProcessingStage; description: string; weight: number }> = [
+    {stage: 'download', description: 'Downloading audio', weight: 10},
+    {stage: 'validation', description: 'Validating recording and configuration', weight: 5},
+    {stage: 'transcription', description: 'Converting speech to text', weight: 50},
+    {stage: 'diarization', description: 'Identifying speakers', weight: 10},
+    {stage: 'parsing', description: 'Parsing conversation structure', weight: 10},
+    {stage: 'insights', description: 'Generating conversation insights', weight: 5},
+    {stage: 'persistence', description: 'Saving conversation', weight: 10}
+];
+
+/**
+ * Tracks a single processing run stage by stage and saves the state
+ * to the recording (pipeline) and conversation (processing log) as it goes.
+ */
+export class ProcessingPipelineTracker {
+    // Only persist in-stage progress when it moves by at least this much
+    private readonly PROGRESS_PERSIST_STEP = 10;
+
+    private readonly pipeline: AudioProcessingPipeline;
+    private readonly processingLog: ProcessingLogEntry[] = [];
+    private processingError: ProcessingError | undefined;
+
+    constructor(
+        private readonly recordingId: string,
+        private readonly conversationId: string,
+        private readonly signal?: AbortSignal
+    ) {
+        this.pipeline = {
+            steps: PIPELINE_STAGES.map(({stage, description}) => ({
+                name: stage,
+                description,
+                status: 'pending'
+            })),
+            currentStep: 0,
+            status: 'pending',
+            conversationId
+        };
+    }
+
+    get log(): ProcessingLogEntry[] {
+        return [...this.processingLog];
+    }
+
+    get state(): AudioProcessingPipeline {
+        return this.pipeline;
+    }
+
+    get error(): ProcessingError | undefined {
+        return this.processingError;
+    }
+
+    /**
+     * Stage currently running (or the one that failed)
+     */
+    get currentStage(): ProcessingStage | undefined {
+        return this.pipeline.steps[this.pipeline.currentStep]?.name as ProcessingStage | undefined;
+    }
+
+    /**
+     * Total cost recorded across all steps so far
+     */
+    get totalCost(): number {
+        const total = this.pipeline.steps.reduce((sum, step) => sum + (step.cost || 0), 0);
+        return Math.round(total * 10000) / 10000;
+    }
+
+    /**
+     * Mark the pipeline as running
+     */
+    async start(): Promise<void> {
+        this.pipeline.status = 'running';
+        this.pipeline.startTime = new Date();
+        await this.persist();
+    }
+
+    /**
+     * Run a stage, recording timing, status, cost and errors.
+     * Retryable failures are retried according to the stage retry policy.
+     */
+    async runStep<T>(
+        stage: ProcessingStage,
+        task: () => Promise<T>,
+        describe?: (result: T) => { message?: string; cost?: number }
+    ): Promise<T> {
+        const step = this.getStep(stage);
+        await this.throwIfCancelled();
+
+        step.status = 'running';
+        step.startTime = new Date();
+        step.progress = 0;
+        step.attempts = 0;
+        this.pipeline.currentStep = this.pipeline.steps.indexOf(step);
+        await this.persist();
+
+        try {
+            const result = await withRetry(async attempt => {
+                step.attempts = attempt;
+                return task();
+            }, getStageRetryPolicy(stage), {
+                isRetryable: error => classifyError(error).retryable,
+                signal: this.signal,
+                onRetry: async (error, attempt, delayMs) => {
+                    const message = error instanceof Error ? error.message : String(error);
+                    logger.warn(`${step.description} failed (attempt ${attempt}), retrying in ${delayMs}ms: ${message}`);
+
+                    step.progress = 0;
+                    this.addLogEntry(stage, `${step.description} failed on attempt ${attempt}, retrying in ${delayMs}ms`, step, message);
+                    await this.persist();
+                }
+            });
+            const summary = describe ? describe(result) : {};
+
+            this.finishStep(step, 'completed');
+            step.cost = summary.cost;
+            this.addLogEntry(stage, summary.message || `${step.description} completed`, step);
+
+            await this.persist();
+            return result;
+        } catch (error) {
+            this.finishStep(step, 'failed');
+            step.error = this.toStepError(error);
+            this.addLogEntry(stage, `${step.description} failed after ${step.attempts} attempt(s)`, step, step.error.message);
+
+            await this.persist();
+            throw error;
+        }
+    }
+
+    /**
+     * Mark a stage as not applicable for this run
+     */
+    async skipStep(stage: ProcessingStage, reason: string): Promise<void> {
+        const step = this.getStep(stage);
+        step.status = 'skipped';
+        step.result = {reason};
+        this.addLogEntry(stage, `${step.description} skipped: ${reason}`, step);
+        await this.persist();
+    }
+
+    /**
+     * Report progress within the running stage
+     */
+    async updateStepProgress(stage: ProcessingStage, progress: number): Promise<void> {
+        const step = this.getStep(stage);
+        const previous = step.progress || 0;
+        step.progress = Math.max(0, Math.min(100, Math.round(progress)));
+
+        if (step.progress - previous >= this.PROGRESS_PERSIST_STEP) {
+            await this.persist();
+        }
+    }
+
+    /**
+     * Mark the whole pipeline as completed
+     */
+    async complete(message: string): Promise<void> {
+        this.pipeline.status = 'completed';
+        this.pipeline.endTime = new Date();
+        this.processingLog.push({
+            timestamp: this.pipeline.endTime.toISOString(),
+            stage: 'completion',
+            message,
+            duration: this.pipeline.endTime.getTime() - (this.pipeline.startTime?.getTime() || 0),
+            cost: this.totalCost
+        });
+        await this.persist();
+    }
+
+    /**
+     * Mark the whole pipeline as failed and record the classified error
+     * together with the cost incurred by the stages that completed
+     */
+    async fail(error: unknown): Promise<void> {
+        const failedStep = this.pipeline.steps.find(step => step.status === 'failed' || step.status === 'running');
+        const stage = (failedStep?.name as ProcessingStage) || 'error';
+
+        this.pipeline.status = 'failed';
+        this.pipeline.endTime = new Date();
+        this.pipeline.errors = [...(this.pipeline.errors || []), this.toStepError(error)];
+        this.processingError = toProcessingError(error, stage, this.totalCost);
+        this.processingLog.push({
+            timestamp: this.pipeline.endTime.toISOString(),
+            stage: 'error',
+            message: `Processing failed during ${stage}${this.processingError.retryable ? ' (retryable)' : ''}`,
+            error: this.processingError.message,
+            cost: this.totalCost
+        });
+        await this.persist();
+    }
+
+    /**
+     * Mark the pipeline as cancelled. partialStepCost is charged to the
+     * interrupted stage (e.g. audio transcribed before the operation was cancelled).
+     */
+    async cancel(error: unknown, partialStepCost: number = 0): Promise<void> {
+        const interruptedStep = this.pipeline.steps.find(step => step.status === 'failed' || step.status === 'running');
+        const stage = (interruptedStep?.name as ProcessingStage) || 'cancellation';
+
+        if (interruptedStep) {
+            interruptedStep.status = 'cancelled';
+            interruptedStep.error = undefined;
+            interruptedStep.cost = Math.round(partialStepCost * 10000) / 10000 || undefined;
+        }
+
+        this.pipeline.status = 'cancelled';
+        this.pipeline.endTime = new Date();
+        this.processingError = toProcessingError(error, stage, this.totalCost);
+        this.processingLog.push({
+            timestamp: this.pipeline.endTime.toISOString(),
+            stage: 'cancellation',
+            message: `Processing cancelled during ${stage}`,
+            cost: this.totalCost
+        });
+        await this.persist();
+    }
+
+    /**
+     * Cancellation is requested locally through the abort signal, or through the
+     * recording document when the request reached another instance
+     */
+    private async throwIfCancelled(): Promise<void> {
+        if (this.signal?.aborted) {
+            throw createCancellationError();
+        }
+
+        const recording = await recordingRepository.findById(this.recordingId);
+        const requestedAt = recording?.cancelRequestedAt ? new Date(recording.cancelRequestedAt) : null;
+        if (requestedAt && this.pipeline.startTime && requestedAt >= this.pipeline.startTime) {
+            throw createCancellationError();
+        }
+    }
+
+    private getStep(stage: ProcessingStage): ProcessingStep {
+        const step = this.pipeline.steps.find(s => s.name === stage);
+        if (!step) {
+            throw new Error(`Unknown pipeline stage: ${stage}`);
+        }
+        return step;
+    }
+
+    private finishStep(step: ProcessingStep, status: 'completed' | 'failed'): void {
+        step.status = status;
+        step.endTime = new Date();
+        step.duration = step.endTime.getTime() - (step.startTime?.getTime() || step.endTime.getTime());
+        if (status === 'completed') {
+            step.progress = 100;
+        }
+    }
+
+    private addLogEntry(stage: ProcessingStage, message: string, step: ProcessingStep, error?: string): void {
+        this.processingLog.push({
+            timestamp: (step.endTime || new Date()).toISOString(),
+            stage,
+            message,
+            duration: step.duration,
+            ...(error && {error}),
+            ...(step.cost !== undefined && {cost: step.cost})
+        });
+    }
+
+    private toStepError(error: unknown): ProcessingStepError {
+        const {code, retryable, details} = classifyError(error);
+
+        return {
+            code,
+            message: error instanceof Error ? error.message : String(error),
+            retryable,
+            ...(details && {details})
+        };
+    }
+
+    /**
+     * Save pipeline state. Tracking must never break processing, so
+     * persistence errors are logged and swallowed.
+     */
+    private async persist(): Promise<void> {
+        try {
+            await recordingRepository.updatePipeline(this.recordingId, this.pipeline, this.processingError);
+            await conversationRepository.update(this.conversationId, {processingLog: this.processingLog});
+        } catch (error) {
+            logger.warn(`Failed to persist processing pipeline for recording ${this.recordingId}:`, error);
+        }
+    }
+}
+
+/**
+ * Derive client-facing progress from pipeline state
+ */
+export function buildProcessingProgress(pipeline: AudioProcessingPipeline): ProcessingProgress {
+    const steps = pipeline.steps || [];
+    let percentage = 0;
+    let stepsCompleted = 0;
+
+    steps.forEach(step => {
+        const weight = PIPELINE_STAGES.find(s => s.stage === step.name)?.weight || 0;
+
+        if (step.status === 'completed' || step.status === 'skipped') {
+            percentage += weight;
+            stepsCompleted++;
+        } else if (step.status === 'running') {
+            percentage += weight * (step.progress || 0) / 100;
+        }
+    });
+
+    const currentStep = steps[pipeline.currentStep];
+    const estimatedCost = steps.reduce((sum, step) => sum + (step.cost || 0), 0);
+
+    if (pipeline.status === 'completed') {
+        percentage = 100;
+    }
+
+    return {
+        stage: pipeline.status === 'completed' ? 'completion'
+            : pipeline.status === 'failed' ? 'error'
+                : pipeline.status === 'cancelled' ? 'cancellation'
+                    : (currentStep?.name as ProcessingStage) || 'upload',
+        percentage: Math.round(percentage),
+        currentStep: currentStep?.description || 'Waiting to start',
+        stepsCompleted,
+        totalSteps: steps.length,
+        estimatedCost: Math.round(estimatedCost * 10000) / 10000
+    };
+}
+
+/**
+ * Derive client-facing progress for a recording. Falls back to the recording
+ * status when no pipeline describes the current run (not started yet, or a
+ * pipeline left over from an earlier run while a reprocess is queued).
+ */
+export function buildRecordingProgress(recording: Recording): ProcessingProgress {
+    const pipeline = recording.processingPipeline;
+    const status = recording.transcriptionStatus;
+
+    if (pipeline && !(status === 'processing' && pipeline.status !== 'running')) {
+        return buildProcessingProgress(pipeline);
+    }
+
+    const fallback: Record<Recording['transcriptionStatus'], { stage: ProcessingStage; percentage: number; currentStep: string }> = {
+        pending: {stage: 'upload', percentage: 0, currentStep: 'Waiting to be processed'},
+        processing: {stage: 'upload', percentage: 0, currentStep: 'Queued for processing'},
+        completed: {stage: 'completion', percentage: 100, currentStep: 'Processing completed'},
+        failed: {stage: 'error', percentage: 0, currentStep: 'Processing failed'},
+        cancelled: {stage: 'cancellation', percentage: 0, currentStep: 'Processing cancelled'}
+    };
+
+    return {
+        ...fallback[status],
+        stepsCompleted: status === 'completed' ? PIPELINE_STAGES.length : 0,
+        totalSteps: PIPELINE_STAGES.length
+    };
+}
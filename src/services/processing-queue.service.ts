@@ -0,0 +1,406 @@
+// src/services/processing-queue.service.ts
+
+import {v4 as uuidv4} from 'uuid';
+import {processingService} from './processing.service';
+import {recordingRepository} from '../repositories/recording.repository';
+import {getProcessingConfig, getSweeperConfig, ProcessingQueueConfig} from '../config/processing.config';
+import {
+    classifyError,
+    createAlreadyProcessingError,
+    createInterruptionError,
+    isCancellationError,
+    isInterruptionError
+} from '../utils/processing-error.util';
+import {logger} from '../utils/logger.util';
+import type {QueueConfig} from '../interfaces/config.interface';
+import type {JobQueue, ProcessingJob, ProcessingJobOptions} from '../interfaces/processing.interface';
+import type {Recording} from '../interfaces/user.interface';
+
+/**
+ * In-process job queue (QueueConfig provider 'memory').
+ * Jobs are lost on restart, so it is only suitable for a single instance.
+ */
+export class InMemoryJobQueue implements JobQueue {
+    // Finished jobs are kept around for status polling, then dropped
+    private readonly FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+    private readonly jobs = new Map<string, ProcessingJob>();
+    private readonly pendingJobIds: string[] = [];
+
+    async enqueue(job: ProcessingJob): Promise<void> {
+        this.pruneFinishedJobs();
+        this.jobs.set(job.jobId, {...job});
+        this.pendingJobIds.push(job.jobId);
+    }
+
+    async dequeue(): Promise<ProcessingJob | null> {
+        const jobId = this.pendingJobIds.shift();
+        if (!jobId) {
+            return null;
+        }
+
+        const job = this.jobs.get(jobId);
+        return job ? {...job} : null;
+    }
+
+    async getJob(jobId: string): Promise<ProcessingJob | null> {
+        const job = this.jobs.get(jobId);
+        return job ? {...job} : null;
+    }
+
+    async updateJob(jobId: string, updates: Partial<ProcessingJob>): Promise<void> {
+        const job = this.jobs.get(jobId);
+        if (!job) {
+            throw new Error(`Job not found: ${jobId}`);
+        }
+
+        this.jobs.set(jobId, {...job, ...updates, updatedAt: new Date().toISOString()});
+    }
+
+    async size(): Promise<number> {
+        return this.pendingJobIds.length;
+    }
+
+    private pruneFinishedJobs(): void {
+        const cutoff = Date.now() - this.FINISHED_JOB_RETENTION_MS;
+
+        for (const [jobId, job] of this.jobs) {
+            const finished = job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+            if (finished && job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+                this.jobs.delete(jobId);
+            }
+        }
+    }
+}
+
+/**
+ * Create job queue for the configured provider
+ */
+export function createJobQueue(config: QueueConfig): JobQueue {
+    switch (config.provider) {
+        case 'memory':
+            return new InMemoryJobQueue();
+        default:
+            throw new Error(`Queue provider '${config.provider}' is not supported yet`);
+    }
+}
+
+/**
+ * Processing queue with an in-process worker pool
+ */
+export class ProcessingQueueService {
+    private static instance: ProcessingQueueService;
+
+    // Cloud Run kills the instance about 10 seconds after SIGTERM
+    private readonly SHUTDOWN_TIMEOUT_MS = 8000;
+
+    private config: ProcessingQueueConfig | null = null;
+    private jobQueue: JobQueue | null = null;
+    private activeJobs = 0;
+    private running = false;
+    private draining = false;
+    private drainRequested = false;
+    private idleResolvers: Array<() => void> = [];
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+
+    // Recordings queued or running on this instance; their heartbeat tells the sweeper they are alive
+    private readonly ownedRecordingIds = new Set<string>();
+    private readonly abortControllers = new Map<string, AbortController>(); // By job ID, for running jobs
+
+    private constructor() {
+    }
+
+    static getInstance(): ProcessingQueueService {
+        if (!ProcessingQueueService.instance) {
+            ProcessingQueueService.instance = new ProcessingQueueService();
+        }
+        return ProcessingQueueService.instance;
+    }
+
+    /**
+     * Start the worker pool
+     */
+    start(): void {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), getSweeperConfig().heartbeatIntervalMs);
+        this.heartbeatTimer.unref();
+
+        logger.info('Processing worker pool started', {
+            maxConcurrentJobs: this.settings.maxConcurrentJobs,
+            provider: this.settings.queueConfig.provider
+        });
+
+        this.drain();
+    }
+
+    /**
+     * Stop picking up new jobs and interrupt running ones. Their recordings keep
+     * the 'processing' status without a heartbeat, so the sweeper requeues them.
+     * Waits at most timeoutMs for the jobs to wind down.
+     */
+    async stop(timeoutMs: number = this.SHUTDOWN_TIMEOUT_MS): Promise<void> {
+        this.running = false;
+
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+
+        if (this.activeJobs === 0) {
+            return;
+        }
+
+        logger.info(`Interrupting ${this.activeJobs} active processing job(s)`);
+        this.abortControllers.forEach(controller => controller.abort(createInterruptionError()));
+
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(() => {
+                logger.warn(`Stopped waiting for ${this.activeJobs} processing job(s) after ${timeoutMs}ms`);
+                resolve();
+            }, timeoutMs);
+
+            this.idleResolvers.push(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Queue a recording for processing. recoveries counts sweeper requeues of stuck jobs.
+     * Fails with ALREADY_PROCESSING when the recording's status or job changed
+     * since it was read.
+     */
+    async enqueueRecording(recording: Recording, options?: ProcessingJobOptions, recoveries: number = 0): Promise<ProcessingJob> {
+        const now = new Date().toISOString();
+        const job: ProcessingJob = {
+            jobId: uuidv4(),
+            recordingId: recording.id,
+            userId: recording.userId,
+            status: 'queued',
+            options,
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        // When reprocessing, the active conversation stays available until the new version completes
+        const claimed = await recordingRepository.claimForProcessing(recording.id, recording, {
+            transcriptionStatus: 'processing',
+            processed: Boolean(recording.conversationId),
+            processingJobId: job.jobId,
+            processingHeartbeatAt: now,
+            processingRecoveries: recoveries
+        });
+        if (!claimed) {
+            throw createAlreadyProcessingError(recording.id);
+        }
+
+        await this.queue.enqueue(job);
+        this.ownedRecordingIds.add(recording.id);
+        logger.info(`Processing job queued: ${job.jobId} (recording: ${recording.id})`);
+
+        this.drain();
+        return job;
+    }
+
+    /**
+     * Cancel processing of a recording. Queued jobs are dropped before they start;
+     * running jobs are aborted between stages (and their speech operation cancelled).
+     * Jobs owned by another instance pick the request up from the recording document.
+     */
+    async cancelRecording(recording: Recording): Promise<'queued' | 'running' | 'requested'> {
+        const cancelRequestedAt = new Date().toISOString();
+        await recordingRepository.update(recording.id, {cancelRequestedAt});
+
+        const jobId = recording.processingJobId;
+        const job = jobId ? await this.queue.getJob(jobId) : null;
+
+        if (job && job.status === 'queued') {
+            await this.queue.updateJob(job.jobId, {status: 'cancelled', completedAt: cancelRequestedAt});
+            this.ownedRecordingIds.delete(recording.id);
+
+            await recordingRepository.updateProcessingStatus(
+                recording.id,
+                recording.conversationId ? 'completed' : 'cancelled',
+                recording.conversationId
+            );
+
+            logger.info(`Queued processing job cancelled: ${job.jobId} (recording: ${recording.id})`);
+            return 'queued';
+        }
+
+        const controller = jobId ? this.abortControllers.get(jobId) : undefined;
+        if (controller) {
+            controller.abort();
+            logger.info(`Running processing job cancellation requested: ${jobId} (recording: ${recording.id})`);
+            return 'running';
+        }
+
+        logger.info(`Processing cancellation requested for recording owned by another instance: ${recording.id}`);
+        return 'requested';
+    }
+
+    /**
+     * Get job by ID
+     */
+    async getJob(jobId: string): Promise<ProcessingJob | null> {
+        return this.queue.getJob(jobId);
+    }
+
+    /**
+     * Get queue statistics
+     */
+    async getStats(): Promise<{ queued: number; active: number; maxConcurrentJobs: number }> {
+        return {
+            queued: await this.queue.size(),
+            active: this.activeJobs,
+            maxConcurrentJobs: this.settings.maxConcurrentJobs
+        };
+    }
+
+    private get settings(): ProcessingQueueConfig {
+        if (!this.config) {
+            this.config = getProcessingConfig();
+        }
+        return this.config;
+    }
+
+    private get queue(): JobQueue {
+        if (!this.jobQueue) {
+            this.jobQueue = createJobQueue(this.settings.queueConfig);
+        }
+        return this.jobQueue;
+    }
+
+    /**
+     * Fill free worker slots with queued jobs
+     */
+    private drain(): void {
+        if (!this.running) {
+            return;
+        }
+
+        if (this.draining) {
+            this.drainRequested = true;
+            return;
+        }
+
+        this.draining = true;
+        this.drainRequested = false;
+
+        const fillSlots = async (): Promise<void> => {
+            while (this.running && this.activeJobs < this.settings.maxConcurrentJobs) {
+                const job = await this.queue.dequeue();
+                if (!job) {
+                    break;
+                }
+
+                this.activeJobs++;
+                this.runJob(job)
+                    .catch(error => logger.error(`Processing job failed unexpectedly: ${job.jobId}`, error))
+                    .finally(() => {
+                        this.activeJobs--;
+                        this.ownedRecordingIds.delete(job.recordingId);
+                        if (this.activeJobs === 0) {
+                            this.idleResolvers.forEach(resolve => resolve());
+                            this.idleResolvers = [];
+                        }
+                        this.drain();
+                    });
+            }
+        };
+
+        fillSlots()
+            .catch(error => logger.error('Failed to dequeue processing jobs:', error))
+            .finally(() => {
+                this.draining = false;
+                if (this.drainRequested) {
+                    this.drain();
+                }
+            });
+    }
+
+    /**
+     * Refresh the heartbeat of every recording owned by this instance
+     */
+    private sendHeartbeats(): void {
+        const heartbeatAt = new Date().toISOString();
+
+        this.ownedRecordingIds.forEach(recordingId => {
+            recordingRepository.update(recordingId, {
+                processingHeartbeatAt: heartbeatAt
+            }).catch(error =>
+                logger.warn(`Failed to refresh processing heartbeat: ${recordingId}`, error)
+            );
+        });
+    }
+
+    /**
+     * Run a single processing job
+     */
+    private async runJob(job: ProcessingJob): Promise<void> {
+        const current = await this.queue.getJob(job.jobId);
+        if (current?.status === 'cancelled') {
+            logger.info(`Skipping cancelled processing job: ${job.jobId}`);
+            return;
+        }
+
+        logger.info(`Processing job started: ${job.jobId} (recording: ${job.recordingId})`);
+        const controller = new AbortController();
+        this.abortControllers.set(job.jobId, controller);
+        if (!this.running) {
+            controller.abort(createInterruptionError());
+        }
+
+        try {
+            await this.queue.updateJob(job.jobId, {
+                status: 'running',
+                attempts: job.attempts + 1,
+                startedAt: new Date().toISOString()
+            });
+
+            const result = await processingService.processRecording(job.recordingId, job.options, controller.signal);
+
+            await this.queue.updateJob(job.jobId, {
+                status: 'completed',
+                result: {
+                    conversationId: result.conversationId,
+                    processingTime: result.processingTime
+                },
+                completedAt: new Date().toISOString()
+            });
+
+            logger.info(`Processing job completed: ${job.jobId} -> conversation: ${result.conversationId}`);
+        } catch (error) {
+            const cancelled = isCancellationError(error);
+            const {code, retryable} = classifyError(error);
+
+            if (cancelled) {
+                logger.info(`Processing job cancelled: ${job.jobId}`);
+            } else if (isInterruptionError(error)) {
+                logger.info(`Processing job interrupted by shutdown: ${job.jobId}`);
+            } else {
+                logger.error(`Processing job failed: ${job.jobId}`, error);
+            }
+
+            await this.queue.updateJob(job.jobId, {
+                status: cancelled ? 'cancelled' : 'failed',
+                error: {
+                    code,
+                    message: error instanceof Error ? error.message : 'Unknown processing error',
+                    retryable
+                },
+                completedAt: new Date().toISOString()
+            }).catch(updateError => logger.error(`Failed to update job status: ${job.jobId}`, updateError));
+        } finally {
+            this.abortControllers.delete(job.jobId);
+        }
+    }
+}
+
+export const processingQueueService = ProcessingQueueService.getInstance();
@@ -1,13 +1,37 @@
 // src/services/processing.service.ts
 
-import {speechToTextService} from './speech-to-text.service';
+import {SpeechProcessingOptions, speechToTextService} from './speech-to-text.service';
 import {databaseService} from './database.service';
 import {recordingRepository} from '../repositories/recording.repository';
 import {twilioIntegrationService} from './twilio-integration.service';
+import {ProcessingPipelineTracker} from './processing-pipeline.service';
+import {COST_OPTIMIZATION_TIERS, CostCalculator, DEFAULT_OPTIMIZATION_SETTINGS} from '../config/cost-optimization.config';
+import {getSegmentationConfig} from '../config/processing.config';
+import {webhookService} from './webhook.service';
+import {budgetGuardService} from './budget-guard.service';
+import {conversationInsightsService} from './conversation-insights.service';
+import {sentimentService} from './sentiment.service';
+import {speechProviderService} from './speech-provider.service';
+import {
+    createAudioTooLongError,
+    isCancellationError,
+    isInterruptionError,
+    ProcessingFailure,
+    toProcessingError
+} from '../utils/processing-error.util';
+import {buildAlternativeLanguages, normalizeLanguageCode, rankLanguagesByDuration} from '../utils/language.util';
+import {buildSpeechContexts, getAutomaticHints} from '../utils/speech-adaptation.util';
+import {DEFAULT_RECOGNITION_ALTERNATIVES} from '../utils/message-alternatives.util';
 import {logger} from '../utils/logger.util';
 import {v4 as uuidv4} from 'uuid';
-import type {ConversationData, ConversationInsights, ConversationMetadata} from '../interfaces/conversation.interface';
-import type {Recording} from '../interfaces/user.interface';
+import type {ConversationData, ConversationMetadata} from '../interfaces/conversation.interface';
+import type {Recording, User} from '../interfaces/user.interface';
+import type {
+    BudgetCheckResult,
+    ConversationVersion,
+    ProcessingJobOptions,
+    ProcessingSettings
+} from '../interfaces/processing.interface';
 import type {AudioEncoding, SpeechRecognitionConfig} from '../interfaces/audio.interface';
 
 /**
@@ -34,11 +58,7 @@ export class ProcessingService {
     /**
      * Process recording from Twilio and create separate conversation
      */
-    async processRecording(recordingId: string, costOptimization?: {
-        maxSpeakers?: number;
-        enableEnhanced?: boolean;
-        priorityCost?: 'speed' | 'accuracy' | 'cost';
-    }): Promise<{
+    async processRecording(recordingId: string, options?: ProcessingJobOptions, signal?: AbortSignal): Promise<{
         success: boolean;
         conversationId: string;
         conversation: ConversationData;
@@ -46,6 +66,11 @@ export class ProcessingService {
         error?: string;
     }> {
         const startTime = Date.now();
+        let tracker: ProcessingPipelineTracker | null = null;
+        let version: ConversationVersion | null = null;
+        let previousConversationId: string | undefined;
+        let estimatedTranscriptionCost = 0;
+        let userId: string | undefined;
 
         try {
             logger.info(`Starting recording processing: ${recordingId}`);
@@ -55,168 +80,356 @@ export class ProcessingService {
             if (!recording) {
                 throw new Error(`Recording not found: ${recordingId}`);
             }
+            userId = recording.userId;
 
             // Validate recording status
             if (recording.transcriptionStatus !== 'processing') {
                 throw new Error(`Recording not in processing status: ${recording.transcriptionStatus}`);
             }
 
-            // Create conversation ID
-            const conversationId = uuidv4();
+            // Every run produces a new conversation version; earlier versions are kept
+            previousConversationId = recording.conversationId;
 
-            // Step 1: Get audio file URL (Twilio URL with auth)
-            const audioUrl = recording.recordingUrl;
-            if (!audioUrl) {
-                throw new Error(`No recording URL found for recording: ${recordingId}`);
-            }
+            // Options stored with the upload and the owner's language fill in what the job leaves unset
+            const user = await databaseService.users.findByUid(recording.userId);
+            const requestedOptions = this.resolveJobOptions(recording, user, options);
 
-            logger.info(`Processing audio from Twilio URL: ${audioUrl}`);
+            // Budget guard may move the run to a cheaper tier; a rejection fails the validation stage
+            const budget = await this.checkBudget(recording, options, user);
+            const effectiveOptions: ProcessingJobOptions = budget.downgraded
+                ? {...requestedOptions, tier: budget.tier}
+                : requestedOptions;
 
-            // Step 2: Configure speech recognition
-            const speechConfig = this.createSpeechConfigFromRecording(recording, costOptimization);
-
-            // Log cost estimate
-            const estimatedCost = this.estimateProcessingCostFromRecording(recording, speechConfig);
-            logger.info(`Estimated processing cost: $${estimatedCost.totalCost} (${estimatedCost.duration} minutes)`);
-
-            // Step 3: Process speech-to-text with authenticated Twilio URL
-            logger.info(`Processing speech-to-text for recording: ${recordingId}`);
+            const speechConfig = this.createSpeechConfigFromRecording(recording, effectiveOptions, user);
+            const conversationId = uuidv4();
 
-            const speechResults = await this.processAudio(audioUrl, speechConfig, recording.metadata.source);
+            version = {
+                version: Math.max(0, ...(recording.conversationVersions || []).map(v => v.version)) + 1,
+                conversationId,
+                status: 'processing',
+                settings: {
+                    ...this.getProcessingSettings(speechConfig, effectiveOptions),
+                    ...(budget.downgraded && {downgradedFrom: budget.requestedTier || 'DEFAULT'})
+                },
+                jobId: recording.processingJobId,
+                createdAt: new Date().toISOString()
+            };
 
-            if (!speechResults.results || speechResults.results.length === 0) {
-                throw new Error('No speech content detected in audio file');
-            }
+            // Create conversation up front so the processing log can be saved incrementally
+            const conversationSkeleton: ConversationData = {
+                ...this.createConversationDataFromRecording(recording, conversationId),
+                version: version.version,
+                processingSettings: version.settings
+            };
+            await databaseService.conversations.createWithId(conversationId, conversationSkeleton);
+            await recordingRepository.saveConversationVersion(recordingId, version);
 
-            // Log actual cost
-            if (speechResults.costEstimate) {
-                logger.info(`Actual processing cost: $${speechResults.costEstimate.totalEstimatedCost} for ${speechResults.costEstimate.baseMinutes} minutes`);
-            }
+            tracker = new ProcessingPipelineTracker(recordingId, conversationId, signal);
+            const pipeline = tracker;
+            await pipeline.start();
 
-            // Step 4: Extract speaker diarization
-            logger.info(`Extracting speaker diarization for recording: ${recordingId}`);
-            const diarizationResult = speechToTextService.extractSpeakerDiarization(speechResults);
+            webhookService.emit('processing.started', {
+                recordingId,
+                userId,
+                conversationId,
+                version: version.version,
+                jobId: version.jobId,
+                settings: version.settings
+            });
 
-            if (diarizationResult.segments.length === 0) {
-                throw new Error('No speaker segments detected in audio');
+            // Stage: download audio (Twilio only - uploads are read from Cloud Storage by the recognizer)
+            const audioUrl = recording.recordingUrl;
+            let audioBuffer: Buffer | undefined;
+
+            if (recording.metadata.source === 'twilio' && audioUrl) {
+                audioBuffer = await pipeline.runStep('download', () => {
+                    logger.info(`Downloading audio from Twilio: ${audioUrl}`);
+                    return twilioIntegrationService.downloadRecording(audioUrl, recording.metadata.audio?.channels);
+                }, buffer => ({message: `Downloaded ${buffer.length} bytes from Twilio`}));
+            } else {
+                await pipeline.skipStep('download', 'Audio is read directly from Cloud Storage');
             }
 
-            // Step 5: Convert to conversation format
-            logger.info(`Converting to conversation format: ${recordingId}`);
-            const {speakers, messages} = speechToTextService.convertToConversationFormat(
-                diarizationResult,
-                this.createConversationDataFromRecording(recording, conversationId)
-            );
-
-            // Step 6: Generate insights
-            logger.info(`Generating conversation insights: ${recordingId}`);
-            const insights = this.generateConversationInsights(speakers, messages, diarizationResult.totalDuration);
+            // Stage: validate recording and estimate cost
+            const estimatedCost = await pipeline.runStep('validation', async () => {
+                if (!audioUrl) {
+                    throw new Error(`No recording URL found for recording: ${recordingId}`);
+                }
+
+                if (audioBuffer && audioBuffer.length === 0) {
+                    throw new Error('Downloaded audio is empty');
+                }
+
+                if (recording.recordingDuration > DEFAULT_OPTIMIZATION_SETTINGS.maxAudioDuration) {
+                    throw createAudioTooLongError(recording.recordingDuration, DEFAULT_OPTIMIZATION_SETTINGS.maxAudioDuration);
+                }
+
+                if (!budget.allowed && budget.error) {
+                    throw new ProcessingFailure(budget.error.message, budget.error.code, false, {
+                        estimatedCost: budget.requestedCost,
+                        limit: budget.error.limit,
+                        limits: budget.limits
+                    });
+                }
+
+                const estimate = this.estimateProcessingCostFromRecording(recording, speechConfig);
+                logger.info(`Estimated processing cost: $${estimate.totalCost} (${estimate.duration} minutes)`);
+
+                estimatedTranscriptionCost = estimate.totalCost;
+                return estimate;
+            }, estimate => ({
+                message: `Recording validated. Estimated cost $${estimate.totalCost} for ${estimate.duration.toFixed(2)} minutes` +
+                    (budget.downgraded ? ` (downgraded from ${budget.requestedTier || 'default settings'} to ${budget.tier} to stay within budget)` : '') +
+                    (budget.alert ? `. ${budget.alert}` : '')
+            }));
+
+            // Stage: speech-to-text
+            const speechResults = await pipeline.runStep('transcription', async () => {
+                logger.info(`Processing speech-to-text for recording: ${recordingId}`);
+
+                const results = await this.processAudio(audioUrl, speechConfig, audioBuffer, {
+                    onProgress: percent => void pipeline.updateStepProgress('transcription', percent),
+                    signal,
+                    recordingId
+                });
+
+                if (!results.results || results.results.length === 0) {
+                    throw new Error('No speech content detected in audio file');
+                }
+
+                return results;
+            }, results => ({
+                message: `Converted speech to text (${results.results.length} result segments)`,
+                cost: results.costEstimate?.totalEstimatedCost ?? estimatedCost.totalCost
+            }));
+
+            // Stage: speaker diarization
+            const diarizationResult = await pipeline.runStep('diarization', async () => {
+                logger.info(`Extracting speaker diarization for recording: ${recordingId}`);
+                const result = speechToTextService.extractSpeakerDiarization(speechResults);
+
+                if (result.segments.length === 0) {
+                    throw new Error('No speaker segments detected in audio');
+                }
+
+                return result;
+            }, result => ({
+                message: result.attribution === 'channel'
+                    ? `Attributed ${result.segments.length} segments to ${result.speakerCount} call channels`
+                    : `Identified ${result.speakerCount} speakers in ${result.segments.length} segments`
+            }));
+
+            // Stage: convert to conversation format
+            const {speakers, messages: parsedMessages} = await pipeline.runStep('parsing', async () => {
+                logger.info(`Converting to conversation format: ${recordingId}`);
+                return speechToTextService.convertToConversationFormat(diarizationResult, conversationSkeleton, {
+                    includeWordTimings: effectiveOptions.wordTimings,
+                    maxAlternatives: effectiveOptions.maxAlternatives,
+                    messageTypes: {
+                        detectQuestions: recording.metadata.processingConfig?.parsing?.detectQuestions,
+                        detectInterruptions: recording.metadata.processingConfig?.parsing?.detectInterruptions
+                    },
+                    segmentation: getSegmentationConfig(recording.metadata.processingConfig?.parsing)
+                });
+            }, result => ({
+                message: `Parsed ${result.messages.length} messages from ${result.speakers.length} speakers`
+            }));
+
+            // Stage: insights (sentiment is on unless the upload turned it off)
+            const {insights, messages} = await pipeline.runStep('insights', async () => {
+                logger.info(`Generating conversation insights: ${recordingId}`);
+                const generated = conversationInsightsService.generateInsights(speakers, parsedMessages);
+
+                if (recording.metadata.processingConfig?.parsing?.enableSentimentAnalysis === false) {
+                    return {insights: generated, messages: parsedMessages};
+                }
+
+                // Sentiment is an extra; a failing analyzer must not cost the transcript
+                try {
+                    const analyzed = await sentimentService.analyzeConversation(parsedMessages);
+                    return {
+                        insights: {...generated, ...(analyzed.sentiment && {sentiment: analyzed.sentiment})},
+                        messages: analyzed.messages
+                    };
+                } catch (error) {
+                    logger.warn(`Sentiment analysis failed, continuing without it: ${recordingId}`, error);
+                    return {insights: generated, messages: parsedMessages};
+                }
+            }, result => ({
+                message: result.insights.sentiment
+                    ? `Generated insights; overall sentiment ${result.insights.sentiment.overall}`
+                    : undefined
+            }));
+
+            // Multilingual calls are labelled with the language spoken longest
+            const languages = rankLanguagesByDuration(messages, speechConfig.languageCode);
 
-            // Step 7: Create conversation metadata
             const metadata: ConversationMetadata = {
                 title: `Call Recording: ${this.formatPhoneNumber(recording.fromNumber)} → ${this.formatPhoneNumber(recording.toNumber)}`,
                 description: `Processed from Twilio recording on ${new Date(recording.callStartTime).toLocaleDateString()}`,
                 duration: recording.recordingDuration,
-                language: 'en-US', // Could be configurable
+                language: languages[0],
+                languages,
                 recordingDate: recording.callStartTime,
                 processingDate: new Date().toISOString(),
-                confidence: this.calculateOverallConfidence(messages),
-                fileSize: 0, // We don't store the file
-                originalFileName: `twilio_recording_${recording.recordingSid}`,
-                audioFormat: 'wav', // Twilio default
-                source: 'twilio',
+                confidence: conversationInsightsService.calculateOverallConfidence(messages),
+                fileSize: recording.metadata.fileSize || 0,
+                originalFileName: recording.metadata.originalFileName || `twilio_recording_${recording.recordingSid}`,
+                audioFormat: recording.metadata.audio?.format || 'wav', // Twilio default
+                source: recording.metadata.source,
                 costInfo: speechResults.costEstimate ? {
                     billedMinutes: speechResults.costEstimate.baseMinutes,
                     estimatedCost: speechResults.costEstimate.totalEstimatedCost,
                     currency: speechResults.costEstimate.currency,
                     optimizationsApplied: this.getOptimizationsSummary(speechConfig),
-                    tier: speechConfig.costOptimization?.enableDataLogging ? 'BALANCED' : 'QUALITY',
+                    tier: effectiveOptions.tier || (speechConfig.costOptimization?.enableDataLogging ? 'BALANCED' : 'QUALITY'),
                     premiumFeatures: this.getPremiumFeaturesUsed(speechConfig),
                     processingDate: new Date().toISOString()
                 } : undefined
             };
 
-            // Step 8: Create conversation object with proper processing log
-            const conversationData: ConversationData = {
-                conversationId,
-                recordingId, // Link back to recording
-                status: 'completed',
-                metadata,
-                speakers,
-                messages,
-                insights,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-                processingLog: [
-                    {
-                        timestamp: new Date().toISOString(),
-                        stage: 'diarization',
-                        message: 'Downloaded audio from Twilio and identified speakers',
-                        duration: recording.recordingDuration * 1000
-                    },
-                    {
-                        timestamp: new Date().toISOString(),
-                        stage: 'transcription',
-                        message: 'Converted speech to text with speaker diarization',
-                        duration: recording.recordingDuration * 1000,
-                        cost: speechResults.costEstimate?.totalEstimatedCost
-                    },
-                    {
-                        timestamp: new Date().toISOString(),
-                        stage: 'parsing',
-                        message: 'Parsed conversation structure and message types',
-                        duration: recording.recordingDuration * 1000
-                    },
-                    {
-                        timestamp: new Date().toISOString(),
-                        stage: 'insights',
-                        message: 'Generated conversation insights and analysis',
-                        duration: recording.recordingDuration * 1000
-                    },
-                    {
-                        timestamp: new Date().toISOString(),
-                        stage: 'completion',
-                        message: `Conversation created successfully from Twilio recording. ${speakers.length} speakers, ${messages.length} messages identified.`,
-                        duration: Date.now() - startTime,
-                        cost: speechResults.costEstimate?.totalEstimatedCost
-                    }
-                ]
-            };
+            // Stage: persist conversation and link it to the recording
+            const conversationData = await pipeline.runStep('persistence', async () => {
+                const data: ConversationData = {
+                    ...conversationSkeleton,
+                    status: 'completed',
+                    metadata,
+                    speakers,
+                    messages,
+                    insights,
+                    updatedAt: new Date().toISOString()
+                };
+
+                await databaseService.conversations.update(conversationId, {
+                    status: data.status,
+                    metadata: data.metadata,
+                    speakers: data.speakers,
+                    messages: data.messages,
+                    insights: data.insights
+                });
+
+                // The newest successful version becomes active
+                await recordingRepository.saveConversationVersion(recordingId, {
+                    ...version!,
+                    status: 'completed',
+                    cost: pipeline.totalCost,
+                    completedAt: new Date().toISOString()
+                });
+
+                await recordingRepository.update(recordingId, {
+                    conversationId,
+                    processed: true,
+                    transcriptionStatus: 'completed'
+                } as Partial<Recording>);
+
+                return data;
+            });
 
-            // Step 9: Save conversation to database
-            await databaseService.conversations.createWithId(conversationId, conversationData);
+            await pipeline.complete(
+                `Conversation created successfully from recording. ${speakers.length} speakers, ${messages.length} messages identified.`
+            );
 
-            // Step 10: Update recording with conversation ID and completion status
-            await recordingRepository.update(recordingId, {
+            const processingTime = Date.now() - startTime;
+
+            this.recordUsage(recording.userId, pipeline.totalCost, (recording.recordingDuration || 0) / 60);
+
+            webhookService.emit('conversation.completed', {
+                recordingId,
+                userId,
                 conversationId,
-                processed: true,
-                transcriptionStatus: 'completed'
-            } as Partial<Recording>);
+                version: version.version,
+                speakerCount: speakers.length,
+                messageCount: messages.length,
+                language: metadata.language,
+                duration: diarizationResult.totalDuration,
+                totalCost: pipeline.totalCost,
+                processingTime
+            });
 
-            const processingTime = Date.now() - startTime;
             logger.info(`Recording processing completed successfully: ${recordingId} -> ${conversationId}`, {
                 speakers: speakers.length,
                 messages: messages.length,
                 duration: diarizationResult.totalDuration,
                 processingTime,
-                estimatedCost: speechResults.costEstimate?.totalEstimatedCost
+                totalCost: pipeline.totalCost
             });
 
             return {
                 success: true,
                 conversationId,
-                conversation: conversationData,
+                conversation: {...conversationData, processingLog: pipeline.log},
                 processingTime
             };
 
         } catch (error) {
-            logger.error(`Recording processing failed: ${recordingId}`, error);
+            // A shutdown leaves the run as it is; the sweeper requeues it once the heartbeat expires
+            if (signal?.aborted && isInterruptionError(signal.reason)) {
+                logger.warn(`Recording processing interrupted by shutdown: ${recordingId}`);
+                throw signal.reason;
+            }
+
+            const cancelled = isCancellationError(error);
+            const outcome = cancelled ? 'cancelled' : 'failed';
+
+            if (cancelled) {
+                logger.info(`Recording processing cancelled: ${recordingId}`);
+            } else {
+                logger.error(`Recording processing failed: ${recordingId}`, error);
+            }
+
+            if (tracker) {
+                if (cancelled) {
+                    // Charge the share of the transcription that ran before the operation was cancelled
+                    const interrupted = tracker.state.steps[tracker.state.currentStep];
+                    const partialCost = tracker.currentStage === 'transcription'
+                        ? estimatedTranscriptionCost * (interrupted?.progress || 0) / 100
+                        : 0;
+                    await tracker.cancel(error, partialCost);
+                } else {
+                    await tracker.fail(error);
+                }
+
+                // Work done before the failure or cancellation is still billed
+                if (userId && tracker.totalCost > 0) {
+                    this.recordUsage(userId, tracker.totalCost, 0);
+                }
+
+                try {
+                    await databaseService.conversations.updateStatus(tracker.state.conversationId!, outcome);
+                } catch (updateError) {
+                    logger.error(`Failed to mark conversation as ${outcome} for recording: ${recordingId}`, updateError);
+                }
+            }
 
-            // Update recording status to failed
             try {
-                await recordingRepository.updateProcessingStatus(recordingId, 'failed');
+                if (version) {
+                    await recordingRepository.saveConversationVersion(recordingId, {
+                        ...version,
+                        status: outcome,
+                        cost: tracker?.totalCost,
+                        completedAt: new Date().toISOString()
+                    });
+                }
+
+                // A failed or cancelled reprocess leaves the previously active version in place
+                if (previousConversationId) {
+                    await recordingRepository.updateProcessingStatus(recordingId, 'completed', previousConversationId);
+                } else {
+                    await recordingRepository.updateProcessingStatus(recordingId, outcome);
+                }
             } catch (updateError) {
-                logger.error(`Failed to update recording status to failed: ${recordingId}`, updateError);
+                logger.error(`Failed to update recording status after ${outcome} run: ${recordingId}`, updateError);
+            }
+
+            if (!cancelled) {
+                webhookService.emit('processing.failed', {
+                    recordingId,
+                    userId,
+                    conversationId: version?.conversationId,
+                    version: version?.version,
+                    previousConversationId,
+                    error: tracker?.error || toProcessingError(error, 'error')
+                });
             }
 
             throw error;
@@ -224,44 +437,94 @@ export class ProcessingService {
     }
 
     /**
-     * Process audio from either Twilio or uploaded source
+     * Check a run against the request budget and the owner's plan limits
      */
-    private async processAudio(recordingUrl: string, config: SpeechRecognitionConfig, source: 'twilio' | 'upload') {
-        if (source === 'upload') {
-            logger.info('Processing manually uploaded audio from GCS...');
-            return await speechToTextService.processAudioFile(recordingUrl, config);
-        }
+    async checkBudget(recording: Recording, options?: ProcessingJobOptions, owner?: User | null): Promise<BudgetCheckResult> {
+        const user = owner !== undefined ? owner : await databaseService.users.findByUid(recording.userId);
+        const resolved = this.resolveJobOptions(recording, user, options);
+
+        return budgetGuardService.evaluate(user, resolved, tier => {
+            const config = this.createSpeechConfigFromRecording(recording, tier ? {...resolved, tier} : resolved, user);
+            return this.estimateProcessingCostFromRecording(recording, config).totalCost;
+        });
+    }
 
-        // Handle Twilio audio processing
-        logger.info('Processing audio from Twilio...');
+    /**
+     * Merge job options over the options stored with an upload. The language falls
+     * back from the job to the recording to the owner's profile. Owners with
+     * preferred languages get language detection unless the recording names its language.
+     */
+    private resolveJobOptions(recording: Recording, user: User | null, options?: ProcessingJobOptions): ProcessingJobOptions {
+        const stored = recording.metadata.costOptimization;
+        const diarization = recording.metadata.processingConfig?.diarization;
+        const speech = recording.metadata.processingConfig?.speechToText;
+        const output = recording.metadata.processingConfig?.output;
+        const preferred = user?.profile?.preferredLanguages || [];
+        const languageCode = recording.metadata.language || user?.profile?.language || preferred[0];
+        const detectLanguage = options?.detectLanguage ?? speech?.detectLanguage ??
+            (preferred.length > 0 && !recording.metadata.language);
 
-        // For Google Speech API, we need to handle Twilio URLs specially
-        // Google Speech API expects gs:// URLs, but we have HTTPS URLs with auth
-        logger.info('Downloading audio from Twilio for processing...');
+        return {
+            ...(stored?.tier && {tier: stored.tier}),
+            ...(stored?.priorityCost && {priorityCost: stored.priorityCost}),
+            ...(stored?.maxBudget !== undefined && {maxBudget: stored.maxBudget}),
+            ...(diarization?.minSpeakers && {minSpeakers: diarization.minSpeakers}),
+            ...(diarization?.maxSpeakers && {maxSpeakers: diarization.maxSpeakers}),
+            ...(languageCode && {languageCode}),
+            ...(output?.includeWordTimings && {wordTimings: true}),
+            ...(output?.includeAlternatives && {
+                maxAlternatives: output.maxAlternatives || DEFAULT_RECOGNITION_ALTERNATIVES
+            }),
+            provider: speechProviderService.resolveProviderName(user?.subscription?.plan),
+            ...(detectLanguage && {
+                detectLanguage,
+                alternativeLanguageCodes: [...(speech?.alternativeLanguages || []), ...preferred]
+            }),
+            ...options
+        };
+    }
+
+    /**
+     * Add a run's cost to the owner's monthly usage (fire-and-forget)
+     */
+    private recordUsage(userId: string, cost: number, minutes: number): void {
+        databaseService.users.recordProcessingUsage(userId, cost, minutes)
+            .catch(error => logger.error(`Failed to record processing usage for user: ${userId}`, error));
+    }
 
-        const audioBuffer = await twilioIntegrationService.downloadRecording(recordingUrl);
+    /**
+     * Process audio from either Twilio (downloaded buffer) or uploaded source
+     */
+    private async processAudio(
+        recordingUrl: string,
+        config: SpeechRecognitionConfig,
+        audioBuffer: Buffer | undefined,
+        options: SpeechProcessingOptions
+    ) {
+        if (!audioBuffer) {
+            logger.info('Processing manually uploaded audio from GCS...');
+            return await speechToTextService.processAudioFile(recordingUrl, config, options);
+        }
 
-        // Process the buffer directly if your speech service supports it
-        // This is a placeholder - you may need to adapt based on your speech service implementation
-        return await speechToTextService.processAudioBuffer(audioBuffer, config);
+        logger.info('Processing downloaded Twilio audio buffer...');
+        return await speechToTextService.processAudioBuffer(audioBuffer, config, options);
     }
 
     /**
-     * Create speech config from recording data
+     * Create speech config from recording data. The owner's vocabulary lists and
+     * automatic name hints are merged into the speech contexts.
      */
     private createSpeechConfigFromRecording(
         recording: Recording,
-        optimization?: {
-            maxSpeakers?: number;
-            enableEnhanced?: boolean;
-            priorityCost?: 'speed' | 'accuracy' | 'cost';
-        }
+        optimization?: ProcessingJobOptions,
+        owner?: User | null
     ): SpeechRecognitionConfig {
         const priority = optimization?.priorityCost || 'cost';
 
         let maxSpeakers = this.MAX_SPEAKERS_DEFAULT;
         let useEnhanced = this.ENABLE_ENHANCED_DEFAULT;
         let enableWordTimeOffsets = false;
+        let enableDataLogging = this.ENABLE_DATA_LOGGING;
         let model: string = 'default';
 
         switch (priority) {
@@ -286,31 +549,99 @@ export class ProcessingService {
                 break;
         }
 
+        // An explicit tier overrides the priority presets
+        if (optimization?.tier) {
+            const tier = COST_OPTIMIZATION_TIERS[optimization.tier];
+            maxSpeakers = optimization.maxSpeakers || tier.maxSpeakers;
+            useEnhanced = tier.useEnhanced;
+            enableWordTimeOffsets = tier.enableWordTimeOffsets;
+            enableDataLogging = tier.enableDataLogging;
+            model = tier.model;
+        }
+
+        // Settings requested with the upload; a tier or priority preset decides the model
+        const requested = recording.metadata.processingConfig?.speechToText;
+        if (requested?.model && !optimization?.tier && !optimization?.priorityCost) {
+            model = requested.model;
+        }
+
+        const minSpeakers = Math.min(optimization?.minSpeakers || 1, maxSpeakers);
+        const languageCode = normalizeLanguageCode(optimization?.languageCode || 'en-US');
+        const candidateLanguages = optimization?.alternativeLanguageCodes || requested?.alternativeLanguages;
+        const alternativeLanguageCodes = candidateLanguages?.length
+            ? buildAlternativeLanguages(languageCode, candidateLanguages)
+            : priority === 'cost' ? undefined : ['en-US'];
+        const audio = recording.metadata.audio;
+        // Bridged Twilio calls recorded in dual channel keep each party on its own channel, so
+        // speakers come from the channel instead of diarization. Other dual-channel recordings
+        // have no second party on channel 2; the first channel, which Google recognizes by
+        // default, is diarized.
+        const channelAttribution = recording.metadata.source === 'twilio' && audio?.channels === 2 &&
+            recording.metadata.recordingSource === 'DialVerb';
+
         return {
-            encoding: 'LINEAR16' as AudioEncoding, // Twilio default
-            sampleRateHertz: 8000, // Twilio voice calls are typically 8kHz
-            languageCode: 'en-US', // Could be configurable
-            alternativeLanguageCodes: priority === 'cost' ? undefined : ['en-US'],
-            maxAlternatives: 1,
-            profanityFilter: false,
-            speechContexts: [],
-            enableWordTimeOffsets,
-            enableAutomaticPunctuation: true,
+            ...(optimization?.provider && {provider: optimization.provider}),
+            encoding: audio?.encoding || 'LINEAR16' as AudioEncoding, // Twilio default
+            // Recordings without audio details are Twilio calls, typically 8kHz; uploads only
+            // carry a rate and channel count parsed from a WAV header
+            ...(audio ? audio.sampleRateHertz && {sampleRateHertz: audio.sampleRateHertz} : {sampleRateHertz: 8000}),
+            ...(audio?.encoding === 'LINEAR16' && (audio.channels || 1) > 1 && {audioChannelCount: audio.channels}),
+            ...(channelAttribution && {enableSeparateRecognitionPerChannel: true}),
+            languageCode,
+            alternativeLanguageCodes,
+            maxAlternatives: optimization?.maxAlternatives || 1,
+            profanityFilter: requested?.profanityFilter ?? false,
+            speechContexts: buildSpeechContexts({
+                requested: requested?.speechContexts,
+                lists: owner?.vocabulary,
+                hints: owner && owner.preferences?.vocabularyHints !== false ? getAutomaticHints(owner) : []
+            }),
+            // Channel attribution orders the two transcripts by word timings; alternatives
+            // are placed on messages by the times of the words they replace
+            enableWordTimeOffsets: channelAttribution || optimization?.wordTimings ||
+                (optimization?.maxAlternatives || 1) > 1 ||
+                requested?.enableWordTimeOffsets || enableWordTimeOffsets,
+            enableAutomaticPunctuation: requested?.enableAutomaticPunctuation ?? true,
             diarizationConfig: {
-                enableSpeakerDiarization: true,
-                minSpeakerCount: 1,
+                enableSpeakerDiarization: !channelAttribution &&
+                    (recording.metadata.processingConfig?.diarization?.enableSpeakerDiarization ?? true),
+                minSpeakerCount: minSpeakers,
                 maxSpeakerCount: maxSpeakers
             },
             model,
             useEnhanced,
             costOptimization: {
-                enableDataLogging: this.ENABLE_DATA_LOGGING,
+                enableDataLogging,
                 maxSpeakers,
                 enableBatchProcessing: true
             }
         };
     }
 
+    /**
+     * Summarize the speech settings used for a conversation version
+     */
+    private getProcessingSettings(config: SpeechRecognitionConfig, options?: ProcessingJobOptions): ProcessingSettings {
+        const vocabularyPhrases = (config.speechContexts || []).reduce((sum, context) => sum + context.phrases.length, 0);
+
+        return {
+            ...(config.provider && {provider: config.provider}),
+            ...(options?.tier && {tier: options.tier}),
+            ...(options?.priorityCost && {priorityCost: options.priorityCost}),
+            languageCode: config.languageCode,
+            ...(options?.detectLanguage && {alternativeLanguageCodes: config.alternativeLanguageCodes || []}),
+            minSpeakers: config.diarizationConfig?.minSpeakerCount || 1,
+            maxSpeakers: config.diarizationConfig?.maxSpeakerCount || this.MAX_SPEAKERS_DEFAULT,
+            model: config.model || 'default',
+            useEnhanced: config.useEnhanced || false,
+            enableWordTimeOffsets: config.enableWordTimeOffsets || false,
+            ...(options?.wordTimings && {wordTimings: true}),
+            ...((config.maxAlternatives || 1) > 1 && {maxAlternatives: config.maxAlternatives}),
+            enableDataLogging: config.costOptimization?.enableDataLogging !== false,
+            ...(vocabularyPhrases > 0 && {vocabularyPhrases})
+        };
+    }
+
     /**
      * Create basic conversation data structure from recording
      */
@@ -322,7 +653,7 @@ export class ProcessingService {
             metadata: {
                 title: '',
                 duration: recording.recordingDuration,
-                language: 'en-US',
+                language: recording.metadata.language || 'en-US',
                 recordingDate: recording.callStartTime,
                 processingDate: new Date().toISOString(),
                 confidence: 0,
@@ -357,36 +688,11 @@ export class ProcessingService {
         totalCost: number;
         breakdown: string[];
     } {
-        const duration = recording.recordingDuration || 0;
-        const useDataLogging = config.costOptimization?.enableDataLogging !== false;
-        const baseRate = useDataLogging ? 0.016 : 0.024;
-
-        let baseCost = (duration / 60) * baseRate;
-        let premiumCost = 0;
-        const breakdown: string[] = [];
-
-        breakdown.push(`Base: ${(duration / 60).toFixed(2)} min × $${baseRate} = $${baseCost.toFixed(3)}`);
-
-        if (config.diarizationConfig?.enableSpeakerDiarization) {
-            const diarizationCost = baseCost * 0.6;
-            premiumCost += diarizationCost;
-            breakdown.push(`Speaker diarization: +$${diarizationCost.toFixed(3)} (60%)`);
-        }
-
-        if (config.useEnhanced) {
-            const enhancedCost = baseCost * 0.25;
-            premiumCost += enhancedCost;
-            breakdown.push(`Enhanced models: +$${enhancedCost.toFixed(3)} (25%)`);
-        }
-
-        const totalCost = baseCost + premiumCost;
+        const duration = (recording.recordingDuration || 0) / 60;
 
         return {
-            duration: duration / 60,
-            baseCost: Math.round(baseCost * 1000) / 1000,
-            premiumCost: Math.round(premiumCost * 1000) / 1000,
-            totalCost: Math.round(totalCost * 1000) / 1000,
-            breakdown
+            duration,
+            ...CostCalculator.calculateFeatureCost(duration, CostCalculator.getConfigFeatures(config))
         };
     }
 
@@ -431,25 +737,6 @@ export class ProcessingService {
         return {};
     }
 
-    private generateConversationInsights(speakers: any[], messages: any[], totalDuration: number): ConversationInsights {
-        // Keep your existing implementation
-        return {
-            totalMessages: messages.length,
-            questionCount: 0,
-            responseCount: 0,
-            statementCount: 0,
-            averageMessageLength: 0,
-            longestMessage: {messageId: '', length: 0},
-            conversationFlow: 'unknown',
-            speakingTimeDistribution: []
-        };
-    }
-
-    private calculateOverallConfidence(messages: any[]): number {
-        // Keep your existing implementation
-        return 0.95;
-    }
-
     private getOptimizationsSummary(config: SpeechRecognitionConfig): string[] {
         // Keep your existing implementation
         return [];
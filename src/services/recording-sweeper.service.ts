@@ -0,0 +1,277 @@
+// src/services/recording-sweeper.service.ts
+
+import {hostname} from 'os';
+import {v4 as uuidv4} from 'uuid';
+import {processingQueueService} from './processing-queue.service';
+import {databaseService} from './database.service';
+import {getSweeperConfig, SweeperConfig} from '../config/processing.config';
+import {logger} from '../utils/logger.util';
+import {SubscriptionHelper} from '../interfaces/user.interface';
+import type {Recording, User} from '../interfaces/user.interface';
+import type {ProcessingError, ProcessingStage} from '../interfaces/conversation.interface';
+import type {SweepResult} from '../interfaces/processing.interface';
+
+/**
+ * Periodically queues pending recordings of auto-processing users and
+ * recovers recordings stuck in 'processing' after a crash or deploy.
+ * A Firestore lease makes sure only one instance sweeps at a time.
+ */
+export class RecordingSweeperService {
+    private static instance: RecordingSweeperService;
+
+    private readonly LEASE_NAME = 'recording-sweeper';
+    private readonly instanceId = `${hostname()}-${uuidv4().substring(0, 8)}`;
+
+    private config: SweeperConfig | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private sweeping = false;
+    private pendingCursor: string | undefined; // Resume point for the pending recordings scan
+
+    private constructor() {
+    }
+
+    static getInstance(): RecordingSweeperService {
+        if (!RecordingSweeperService.instance) {
+            RecordingSweeperService.instance = new RecordingSweeperService();
+        }
+        return RecordingSweeperService.instance;
+    }
+
+    /**
+     * Start the sweep schedule
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        if (!this.settings.enabled) {
+            logger.info('Recording sweeper disabled');
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.sweep().catch(error => logger.error('Recording sweep failed:', error));
+        }, this.settings.intervalMs);
+        this.timer.unref();
+
+        logger.info('Recording sweeper started', {
+            instanceId: this.instanceId,
+            intervalMs: this.settings.intervalMs,
+            heartbeatTimeoutMs: this.settings.heartbeatTimeoutMs
+        });
+    }
+
+    /**
+     * Stop the sweep schedule
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Run a single sweep if this instance can take the lease
+     */
+    async sweep(): Promise<SweepResult> {
+        const result: SweepResult = {pendingQueued: 0, stuckRequeued: 0, stuckFailed: 0, skipped: true};
+
+        if (this.sweeping) {
+            return result;
+        }
+
+        this.sweeping = true;
+        try {
+            const acquired = await databaseService.leases.tryAcquire(
+                this.LEASE_NAME,
+                this.instanceId,
+                this.settings.leaseTtlMs
+            );
+            if (!acquired) {
+                return result;
+            }
+
+            result.skipped = false;
+            result.pendingQueued = await this.queuePendingRecordings();
+
+            const recovered = await this.recoverStuckRecordings();
+            result.stuckRequeued = recovered.requeued;
+            result.stuckFailed = recovered.failed;
+
+            if (result.pendingQueued || result.stuckRequeued || result.stuckFailed) {
+                logger.info('Recording sweep completed', result);
+            }
+
+            return result;
+        } finally {
+            this.sweeping = false;
+        }
+    }
+
+    private get settings(): SweeperConfig {
+        if (!this.config) {
+            this.config = getSweeperConfig();
+        }
+        return this.config;
+    }
+
+    /**
+     * Queue pending Twilio recordings whose owner has auto-processing enabled.
+     * Each sweep reads the next page, so recordings that stay pending (owners
+     * without auto-processing) do not hide newer ones; the scan starts over
+     * after the last page or on reaching recordings that are too new.
+     */
+    private async queuePendingRecordings(): Promise<number> {
+        const cutoff = Date.now() - this.settings.pendingMinAgeMs;
+        const page = await databaseService.recordings.getPendingRecordings(
+            this.settings.batchSize,
+            {'metadata.source': 'twilio', deleted: false},
+            this.pendingCursor
+        );
+        const users = new Map<string, User | null>();
+        let queued = 0;
+
+        this.pendingCursor = page.nextCursor;
+
+        for (const recording of page.data) {
+            if (new Date(recording.createdAt).getTime() > cutoff) {
+                // Oldest first, so the rest are newer still
+                this.pendingCursor = undefined;
+                break;
+            }
+
+            if (!users.has(recording.userId)) {
+                users.set(recording.userId, await databaseService.users.findByUid(recording.userId));
+            }
+
+            const user = users.get(recording.userId);
+            if (!user || !SubscriptionHelper.shouldAutoProcess(user)) {
+                continue;
+            }
+
+            try {
+                await processingQueueService.enqueueRecording(recording);
+                queued++;
+            } catch (error) {
+                logger.error(`Sweeper failed to queue pending recording: ${recording.id}`, error);
+            }
+        }
+
+        return queued;
+    }
+
+    /**
+     * Requeue or fail recordings whose processing heartbeat has expired
+     */
+    private async recoverStuckRecordings(): Promise<{ requeued: number; failed: number }> {
+        const cutoff = Date.now() - this.settings.heartbeatTimeoutMs;
+        const processing = await databaseService.recordings.getProcessingRecordings(this.settings.batchSize);
+        let requeued = 0;
+        let failed = 0;
+
+        for (const recording of processing) {
+            const lastHeartbeat = recording.processingHeartbeatAt || recording.updatedAt;
+            if (new Date(lastHeartbeat).getTime() > cutoff) {
+                continue;
+            }
+
+            try {
+                if (this.isCancelRequested(recording)) {
+                    logger.info(`Completing cancellation of stuck recording: ${recording.id}`);
+                    await this.abandonStuckRun(recording, 'cancelled');
+                    await databaseService.recordings.updateProcessingStatus(
+                        recording.id,
+                        recording.conversationId ? 'completed' : 'cancelled',
+                        recording.conversationId
+                    );
+                    continue;
+                }
+
+                await this.abandonStuckRun(recording, 'failed');
+
+                const recoveries = recording.processingRecoveries || 0;
+                if (recoveries < this.settings.maxRecoveries) {
+                    logger.warn(`Requeueing stuck recording: ${recording.id} (recovery ${recoveries + 1})`);
+                    await processingQueueService.enqueueRecording(recording, undefined, recoveries + 1);
+                    requeued++;
+                } else {
+                    logger.warn(`Failing stuck recording after ${recoveries} recoveries: ${recording.id}`);
+                    await this.failStuckRecording(recording);
+                    failed++;
+                }
+            } catch (error) {
+                logger.error(`Sweeper failed to recover stuck recording: ${recording.id}`, error);
+            }
+        }
+
+        return {requeued, failed};
+    }
+
+    private isCancelRequested(recording: Recording): boolean {
+        if (!recording.cancelRequestedAt) {
+            return false;
+        }
+
+        const runStartedAt = recording.processingPipeline?.startTime;
+        return !runStartedAt || this.toTime(recording.cancelRequestedAt) >= this.toTime(runStartedAt);
+    }
+
+    // Pipeline times may still be Firestore Timestamps when read outside the repository
+    private toTime(value: any): number {
+        return (value && typeof value.toDate === 'function' ? value.toDate() : new Date(value)).getTime();
+    }
+
+    /**
+     * Mark the interrupted run's pipeline, conversation and version as failed or cancelled
+     */
+    private async abandonStuckRun(recording: Recording, outcome: 'failed' | 'cancelled'): Promise<void> {
+        const pipeline = recording.processingPipeline;
+        const stuckVersions = (recording.conversationVersions || []).filter(v => v.status === 'processing');
+
+        for (const version of stuckVersions) {
+            await databaseService.recordings.saveConversationVersion(recording.id, {
+                ...version,
+                status: outcome,
+                completedAt: new Date().toISOString()
+            });
+            await databaseService.conversations.updateStatus(version.conversationId, outcome)
+                .catch(error => logger.warn(`Failed to mark stuck conversation as ${outcome}: ${version.conversationId}`, error));
+        }
+
+        if (pipeline && pipeline.status === 'running') {
+            await databaseService.recordings.updatePipeline(recording.id, {
+                ...pipeline,
+                status: outcome,
+                endTime: new Date()
+            }, outcome === 'failed' ? this.createStalledError(recording) : undefined);
+        }
+    }
+
+    private async failStuckRecording(recording: Recording): Promise<void> {
+        // A previously active conversation stays available
+        await databaseService.recordings.update(recording.id, {
+            transcriptionStatus: recording.conversationId ? 'completed' : 'failed',
+            processed: Boolean(recording.conversationId),
+            processingError: this.createStalledError(recording)
+        } as Partial<Recording>);
+    }
+
+    private createStalledError(recording: Recording): ProcessingError {
+        const steps = recording.processingPipeline?.steps || [];
+        const currentStep = steps[recording.processingPipeline?.currentStep ?? -1];
+        const costIncurred = steps.reduce((sum, step) => sum + (step.cost || 0), 0);
+
+        return {
+            code: 'PROCESSING_STALLED',
+            message: `Processing stopped reporting progress for more than ${Math.round(this.settings.heartbeatTimeoutMs / 1000)} seconds`,
+            stage: (currentStep?.name as ProcessingStage) || 'error',
+            retryable: true,
+            costIncurred: Math.round(costIncurred * 10000) / 10000,
+            details: {recoveries: recording.processingRecoveries || 0}
+        };
+    }
+}
+
+export const recordingSweeperService = RecordingSweeperService.getInstance();
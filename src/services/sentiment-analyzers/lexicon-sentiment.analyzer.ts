@@ -0,0 +1,170 @@
+// src/services/sentiment-analyzers/lexicon-sentiment.analyzer.ts
+
+import {getSentimentLexicon, SentimentLexicon} from '../../config/sentiment-lexicon.config';
+import {getSentimentConfig} from '../../config/sentiment.config';
+import type {EmotionalTone, SentimentLabel} from '../../interfaces/conversation.interface';
+import type {SentimentAnalyzer, SentimentInput, SentimentScore} from '../../interfaces/sentiment.interface';
+
+// Words this close after a negator are flipped, within the same clause
+const NEGATION_SCOPE = 3;
+const NEGATION_FACTOR = -0.75;
+// Words after "but" carry more of the meaning than the words before it
+const BEFORE_CONTRAST_WEIGHT = 0.5;
+const AFTER_CONTRAST_WEIGHT = 1.5;
+const EXCLAMATION_BOOST = 0.3; // Per "!", up to three
+// Squashes a valence sum into -1..1; higher values need more evidence
+const NORMALIZATION_ALPHA = 15;
+
+interface Token {
+    word: string;
+    clause: number;
+}
+
+// Own entries only: transcript words such as "constructor" must not resolve to Object.prototype
+function lookup(weights: Record<string, number>, word: string): number | undefined {
+    return Object.prototype.hasOwnProperty.call(weights, word) ? weights[word] : undefined;
+}
+
+/**
+ * Offline sentiment from word valences, with negation, intensifiers and
+ * contrast handling. Tone comes from cue phrases and the score. Languages
+ * without a lexicon are left unscored.
+ */
+export class LexiconSentimentAnalyzer implements SentimentAnalyzer {
+    readonly name = 'lexicon' as const;
+
+    async analyze(inputs: SentimentInput[]): Promise<(SentimentScore | undefined)[]> {
+        const {neutralThreshold} = getSentimentConfig();
+        return inputs.map(input => this.score(input, neutralThreshold));
+    }
+
+    private score(input: SentimentInput, neutralThreshold: number): SentimentScore | undefined {
+        const lexicon = getSentimentLexicon(input.language);
+        if (!lexicon) {
+            return undefined;
+        }
+
+        const text = String(input.text || '').toLowerCase().replace(/[’‘]/g, '\'');
+        const tokens = this.tokenize(text);
+        const contrastAt = tokens.findIndex((_, index) =>
+            lexicon.contrast.some(phrase => this.matchesAt(tokens, index, phrase))
+        );
+
+        let sum = 0;
+        let hits = 0;
+
+        tokens.forEach((token, index) => {
+            let valence = lookup(lexicon.valence, token.word);
+            if (valence === undefined || this.isIntensifying(tokens, index, lexicon)) {
+                return;
+            }
+            hits++;
+
+            const previous = tokens[index - 1];
+            const intensity = previous && previous.clause === token.clause
+                ? lookup(lexicon.intensifiers, previous.word)
+                : undefined;
+            if (intensity) {
+                valence *= intensity;
+            }
+
+            if (this.isNegated(tokens, index, lexicon)) {
+                valence *= NEGATION_FACTOR;
+            }
+
+            if (contrastAt >= 0) {
+                valence *= index > contrastAt ? AFTER_CONTRAST_WEIGHT : BEFORE_CONTRAST_WEIGHT;
+            }
+
+            sum += valence;
+        });
+
+        const exclamations = Math.min(3, (text.match(/!/g) || []).length);
+        if (sum !== 0) {
+            sum += Math.sign(sum) * exclamations * EXCLAMATION_BOOST;
+        }
+
+        const score = this.round(sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA));
+        const label: SentimentLabel = score >= neutralThreshold ? 'positive'
+            : score <= -neutralThreshold ? 'negative'
+                : 'neutral';
+
+        // No sentiment words at all is a confident neutral; cancelling words are not
+        const confidence = label === 'neutral'
+            ? (hits === 0 ? 0.6 : 0.5)
+            : Math.min(0.95, 0.5 + Math.abs(score) * 0.45);
+
+        const emotionalTone = this.detectTone(text, score, exclamations, lexicon);
+
+        return {
+            score,
+            label,
+            confidence: this.round(confidence),
+            ...(emotionalTone && {emotionalTone})
+        };
+    }
+
+    /**
+     * Cue phrases decide the tone; the score keeps cues from overruling the
+     * overall sentiment ("wow, this is awful" is not excited)
+     */
+    private detectTone(text: string, score: number, exclamations: number, lexicon: SentimentLexicon): EmotionalTone | undefined {
+        const padded = ` ${text.replace(/[^\p{L}\p{N}'\s-]/gu, ' ').replace(/\s+/g, ' ').trim()} `;
+        const has = (tone: EmotionalTone): boolean => (lexicon.tones[tone] || []).some(cue => padded.includes(` ${cue} `));
+
+        if (has('concerned') && score < 0.3) {
+            return 'concerned';
+        }
+        if (score <= -0.6 || (score < -0.2 && has('frustrated'))) {
+            return 'frustrated';
+        }
+        if (score >= 0.5 && (exclamations > 0 || has('excited'))) {
+            return 'excited';
+        }
+        if (has('formal') && Math.abs(score) < 0.5) {
+            return 'formal';
+        }
+        if (Math.abs(score) < 0.3) {
+            return 'calm';
+        }
+
+        return undefined;
+    }
+
+    private tokenize(text: string): Token[] {
+        return text.split(/[,.;:!?…。？！؟]+/).flatMap((clause, index) =>
+            clause.split(/[^\p{L}\p{N}'-]+/u)
+                .map(word => word.replace(/^['-]+|['-]+$/g, ''))
+                .filter(Boolean)
+                .map(word => ({word, clause: index}))
+        );
+    }
+
+    private isNegated(tokens: Token[], index: number, lexicon: SentimentLexicon): boolean {
+        for (let offset = 1; offset <= NEGATION_SCOPE && index - offset >= 0; offset++) {
+            const token = tokens[index - offset];
+            if (token.clause !== tokens[index].clause) {
+                return false;
+            }
+            if (lexicon.negators.includes(token.word)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    // "super" in "super helpful" boosts the next word instead of counting itself
+    private isIntensifying(tokens: Token[], index: number, lexicon: SentimentLexicon): boolean {
+        const next = tokens[index + 1];
+        return Boolean(lookup(lexicon.intensifiers, tokens[index].word)) && Boolean(next) &&
+            next.clause === tokens[index].clause && lookup(lexicon.valence, next.word) !== undefined;
+    }
+
+    private matchesAt(tokens: Token[], index: number, phrase: string): boolean {
+        return phrase.split(' ').every((word, offset) => tokens[index + offset]?.word === word);
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
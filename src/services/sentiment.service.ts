@@ -0,0 +1,236 @@
+// src/services/sentiment.service.ts
+
+import {LexiconSentimentAnalyzer} from './sentiment-analyzers/lexicon-sentiment.analyzer';
+import {getSentimentConfig, SentimentConfig} from '../config/sentiment.config';
+import {ProcessingFailure} from '../utils/processing-error.util';
+import {logger} from '../utils/logger.util';
+import type {
+    ConversationSentiment,
+    EmotionalTone,
+    Message,
+    SentimentLabel,
+    SentimentTimelinePoint,
+    SpeakerSentiment
+} from '../interfaces/conversation.interface';
+import type {SentimentAnalyzer, SentimentAnalyzerName, SentimentScore} from '../interfaces/sentiment.interface';
+
+interface ScoredMessage {
+    message: Message;
+    sentiment: SentimentScore;
+    weight: number; // Word count; a one-word "great" should not outweigh a paragraph
+}
+
+/**
+ * Registry of sentiment analyzers and aggregation of message scores per
+ * speaker, per conversation and over time. The offline lexicon analyzer is
+ * registered by default; model-backed analyzers register an implementation of
+ * SentimentAnalyzer.
+ */
+export class SentimentService {
+    private static instance: SentimentService;
+    private analyzers = new Map<SentimentAnalyzerName, SentimentAnalyzer>();
+
+    private readonly NOTABLE_TONE_SHARE = 0.2;
+
+    private constructor() {
+        this.register(new LexiconSentimentAnalyzer());
+    }
+
+    static getInstance(): SentimentService {
+        if (!SentimentService.instance) {
+            SentimentService.instance = new SentimentService();
+        }
+        return SentimentService.instance;
+    }
+
+    register(analyzer: SentimentAnalyzer): void {
+        this.analyzers.set(analyzer.name, analyzer);
+    }
+
+    /**
+     * Get a registered analyzer; selecting one that is not registered fails the run
+     */
+    getAnalyzer(name?: SentimentAnalyzerName): SentimentAnalyzer {
+        const analyzerName = name || getSentimentConfig().analyzer;
+        const analyzer = this.analyzers.get(analyzerName);
+
+        if (!analyzer) {
+            throw new ProcessingFailure(
+                `Sentiment analyzer "${analyzerName}" is not available`,
+                'SENTIMENT_ANALYZER_UNAVAILABLE',
+                false,
+                {analyzer: analyzerName, available: [...this.analyzers.keys()]}
+            );
+        }
+
+        return analyzer;
+    }
+
+    /**
+     * Score every message and aggregate. Returns copies of the messages with
+     * sentiment added to their analysis; messages the analyzer cannot score
+     * are left as they are, and without any scored message there is no
+     * conversation sentiment.
+     */
+    async analyzeConversation(messages: Message[]): Promise<{ messages: Message[]; sentiment?: ConversationSentiment }> {
+        const config = getSentimentConfig();
+        const analyzer = this.getAnalyzer(config.analyzer);
+
+        const scores = await analyzer.analyze(messages.map(message => ({
+            text: message.content,
+            language: message.language
+        })));
+
+        const scored: ScoredMessage[] = [];
+        messages.forEach((message, index) => {
+            const sentiment = scores[index];
+            if (sentiment) {
+                scored.push({message, sentiment, weight: Math.max(1, message.wordCount)});
+            }
+        });
+        const analyzedMessages = messages.map((message, index) => this.withSentiment(message, scores[index]));
+
+        if (scored.length === 0) {
+            logger.info(`Sentiment (${analyzer.name}): no message in a supported language`);
+            return {messages: analyzedMessages};
+        }
+
+        const speakerIds = [...new Set(scored.map(entry => entry.message.speakerId))];
+        const overall = this.aggregate(scored, config);
+
+        logger.info(`Sentiment (${analyzer.name}): ${overall.label} (${overall.score}) across ${scored.length} of ${messages.length} messages`);
+
+        return {
+            messages: analyzedMessages,
+            sentiment: {
+                overall: overall.label,
+                confidence: overall.confidence,
+                score: overall.score,
+                breakdown: overall.breakdown,
+                speakers: speakerIds.map(speakerId => this.getSpeakerSentiment(
+                    speakerId,
+                    scored.filter(entry => entry.message.speakerId === speakerId),
+                    config
+                )),
+                timeline: this.getTimeline(scored, config),
+                analyzer: analyzer.name
+            }
+        };
+    }
+
+    private withSentiment(message: Message, sentiment: SentimentScore | undefined): Message {
+        if (!sentiment) {
+            return message;
+        }
+
+        return {
+            ...message,
+            analysis: {
+                messageTypeConfidence: 0,
+                indicators: [],
+                ...message.analysis,
+                sentiment: sentiment.label,
+                sentimentScore: sentiment.score,
+                sentimentConfidence: sentiment.confidence,
+                ...(sentiment.emotionalTone && {emotionalTone: sentiment.emotionalTone})
+            }
+        };
+    }
+
+    private getSpeakerSentiment(speakerId: string, scored: ScoredMessage[], config: SentimentConfig): SpeakerSentiment {
+        const aggregate = this.aggregate(scored, config);
+        const dominantTone = this.getDominantTone(scored);
+
+        return {
+            speakerId,
+            overall: aggregate.label,
+            confidence: aggregate.confidence,
+            score: aggregate.score,
+            breakdown: aggregate.breakdown,
+            ...(dominantTone && {dominantTone})
+        };
+    }
+
+    /**
+     * Mean score per window, by message start time. Long calls get wider
+     * windows so the series stays short; windows without speech are left out.
+     */
+    private getTimeline(scored: ScoredMessage[], config: SentimentConfig): SentimentTimelinePoint[] {
+        const end = Math.max(0, ...scored.map(entry => entry.message.endTime));
+        const width = Math.max(config.timelineWindowSeconds, Math.ceil(end / config.maxTimelinePoints));
+        const windows = new Map<number, ScoredMessage[]>();
+
+        for (const entry of scored) {
+            const index = Math.floor(entry.message.startTime / width);
+            windows.set(index, [...(windows.get(index) || []), entry]);
+        }
+
+        return [...windows.entries()]
+            .sort((a, b) => a[0] - b[0])
+            .map(([index, entries]) => ({
+                startTime: index * width,
+                endTime: (index + 1) * width,
+                score: this.weightedScore(entries),
+                messageCount: entries.length
+            }));
+    }
+
+    private aggregate(scored: ScoredMessage[], config: SentimentConfig): {
+        label: SentimentLabel;
+        score: number;
+        confidence: number;
+        breakdown: ConversationSentiment['breakdown'];
+    } {
+        const score = this.weightedScore(scored);
+        const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+        const confidence = totalWeight > 0
+            ? scored.reduce((sum, entry) => sum + entry.sentiment.confidence * entry.weight, 0) / totalWeight
+            : 0;
+        const share = (label: SentimentLabel): number => scored.length > 0
+            ? this.round(scored.filter(entry => entry.sentiment.label === label).length / scored.length * 100)
+            : 0;
+
+        return {
+            label: score >= config.neutralThreshold ? 'positive'
+                : score <= -config.neutralThreshold ? 'negative'
+                    : 'neutral',
+            score,
+            confidence: this.round(confidence),
+            breakdown: {
+                positive: share('positive'),
+                negative: share('negative'),
+                neutral: share('neutral')
+            }
+        };
+    }
+
+    private weightedScore(scored: ScoredMessage[]): number {
+        const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+        return totalWeight > 0
+            ? this.round(scored.reduce((sum, entry) => sum + entry.sentiment.score * entry.weight, 0) / totalWeight)
+            : 0;
+    }
+
+    // Calm is the default tone, so a recurring other tone is the more telling one
+    private getDominantTone(scored: ScoredMessage[]): EmotionalTone | undefined {
+        const counts = new Map<EmotionalTone, number>();
+        scored.forEach(({sentiment}) => {
+            if (sentiment.emotionalTone) {
+                counts.set(sentiment.emotionalTone, (counts.get(sentiment.emotionalTone) || 0) + 1);
+            }
+        });
+
+        const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+        const notable = ranked.find(([tone, count]) =>
+            tone !== 'calm' && count / scored.length >= this.NOTABLE_TONE_SHARE
+        );
+
+        return (notable || ranked[0])?.[0];
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export const sentimentService = SentimentService.getInstance();
@@ -0,0 +1,63 @@
+// src/services/speech-provider.service.ts
+
+import {GoogleSpeechProvider} from './speech-providers/google-speech.provider';
+import {FixtureSpeechProvider} from './speech-providers/fixture-speech.provider';
+import {getSpeechProviderSelection, SubscriptionPlan} from '../config/speech-provider.config';
+import {ProcessingFailure} from '../utils/processing-error.util';
+import type {SpeechProvider} from '../interfaces/config.interface';
+import type {SpeechRecognitionProvider} from '../interfaces/speech-provider.interface';
+
+/**
+ * Registry of speech recognition backends. Google and the offline fixture
+ * provider are registered by default; other backends register an
+ * implementation of SpeechRecognitionProvider.
+ */
+export class SpeechProviderService {
+    private static instance: SpeechProviderService;
+    private providers = new Map<SpeechProvider, SpeechRecognitionProvider>();
+
+    private constructor() {
+        this.register(new GoogleSpeechProvider());
+        this.register(new FixtureSpeechProvider(name => this.getProvider(name)));
+    }
+
+    static getInstance(): SpeechProviderService {
+        if (!SpeechProviderService.instance) {
+            SpeechProviderService.instance = new SpeechProviderService();
+        }
+        return SpeechProviderService.instance;
+    }
+
+    register(provider: SpeechRecognitionProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    /**
+     * Provider configured for a plan, or the default provider
+     */
+    resolveProviderName(plan?: SubscriptionPlan): SpeechProvider {
+        const selection = getSpeechProviderSelection();
+        return (plan && selection.planProviders[plan]) || selection.defaultProvider;
+    }
+
+    /**
+     * Get a registered provider; selecting one that is not registered fails the run
+     */
+    getProvider(name?: SpeechProvider): SpeechRecognitionProvider {
+        const providerName = name || this.resolveProviderName();
+        const provider = this.providers.get(providerName);
+
+        if (!provider) {
+            throw new ProcessingFailure(
+                `Speech provider "${providerName}" is not available`,
+                'SPEECH_PROVIDER_UNAVAILABLE',
+                false,
+                {provider: providerName, available: [...this.providers.keys()]}
+            );
+        }
+
+        return provider;
+    }
+}
+
+export const speechProviderService = SpeechProviderService.getInstance();
@@ -0,0 +1,151 @@
+// src/services/speech-providers/fixture-speech.provider.ts
+
+import {createHash} from 'crypto';
+import {mkdir, readFile, writeFile} from 'fs/promises';
+import path from 'path';
+import {getSpeechFixtureConfig} from '../../config/speech-provider.config';
+import {logger} from '../../utils/logger.util';
+import {createCancellationError, ProcessingFailure} from '../../utils/processing-error.util';
+import type {SpeechProvider} from '../../interfaces/config.interface';
+import type {SpeechRecognitionConfig} from '../../interfaces/audio.interface';
+import type {
+    SpeechProcessingOptions,
+    SpeechProviderAudio,
+    SpeechProviderResponse,
+    SpeechRecognitionProvider
+} from '../../interfaces/speech-provider.interface';
+
+/**
+ * Recognition response saved to disk. Fixtures are looked up by recording id
+ * (recording-<id>.json) and then by audio hash (audio-<sha256>.json); the hash
+ * covers the audio bytes, or the storage URI for audio that is not inline.
+ */
+export interface SpeechFixture {
+    audioHash: string;
+    recordingId?: string;
+    capturedAt: string;
+    capturedFrom: SpeechProvider;
+    config: Pick<SpeechRecognitionConfig, 'languageCode' | 'encoding' | 'sampleRateHertz'>;
+    response: SpeechProviderResponse;
+}
+
+/**
+ * Replays recorded recognition responses so the pipeline runs offline and
+ * deterministically. In capture mode real responses are recorded instead.
+ */
+export class FixtureSpeechProvider implements SpeechRecognitionProvider {
+    readonly name = 'fixture' as const;
+
+    constructor(private readonly resolveProvider: (name: SpeechProvider) => SpeechRecognitionProvider) {
+    }
+
+    async recognize(
+        audio: SpeechProviderAudio,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions
+    ): Promise<SpeechProviderResponse> {
+        if (options.signal?.aborted) {
+            throw createCancellationError();
+        }
+
+        const fixtureConfig = getSpeechFixtureConfig();
+        const audioHash = this.hashAudio(audio);
+
+        if (fixtureConfig.mode === 'capture') {
+            return this.capture(audio, config, options, audioHash, fixtureConfig.captureProvider, fixtureConfig.directory);
+        }
+
+        const candidates = [
+            ...(options.recordingId ? [this.recordingFile(options.recordingId)] : []),
+            this.audioFile(audioHash)
+        ];
+
+        for (const fileName of candidates) {
+            const fixture = await this.readFixture(path.join(fixtureConfig.directory, fileName));
+            if (fixture) {
+                logger.info(`Replaying speech fixture: ${fileName}`);
+                options.onProgress?.(100);
+                return fixture.response;
+            }
+        }
+
+        throw new ProcessingFailure(
+            `No speech fixture found in ${fixtureConfig.directory}`,
+            'SPEECH_FIXTURE_NOT_FOUND',
+            false,
+            {directory: fixtureConfig.directory, tried: candidates}
+        );
+    }
+
+    /**
+     * Recognize with the real provider and save the response under every key
+     */
+    private async capture(
+        audio: SpeechProviderAudio,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions,
+        audioHash: string,
+        captureProvider: SpeechProvider,
+        directory: string
+    ): Promise<SpeechProviderResponse> {
+        const response = await this.resolveProvider(captureProvider).recognize(audio, config, options);
+
+        const fixture: SpeechFixture = {
+            audioHash,
+            ...(options.recordingId && {recordingId: options.recordingId}),
+            capturedAt: new Date().toISOString(),
+            capturedFrom: captureProvider,
+            config: {
+                languageCode: config.languageCode,
+                encoding: config.encoding,
+                sampleRateHertz: config.sampleRateHertz
+            },
+            response
+        };
+
+        const fileNames = [
+            this.audioFile(audioHash),
+            ...(options.recordingId ? [this.recordingFile(options.recordingId)] : [])
+        ];
+
+        await mkdir(directory, {recursive: true});
+        await Promise.all(fileNames.map(fileName =>
+            writeFile(path.join(directory, fileName), JSON.stringify(fixture, null, 2))
+        ));
+
+        logger.info(`Captured speech fixture from ${captureProvider}: ${fileNames.join(', ')}`);
+        return response;
+    }
+
+    private async readFixture(filePath: string): Promise<SpeechFixture | null> {
+        try {
+            return JSON.parse(await readFile(filePath, 'utf8')) as SpeechFixture;
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') {
+                return null;
+            }
+            throw new ProcessingFailure(`Unreadable speech fixture: ${filePath}`, 'SPEECH_FIXTURE_INVALID', false, {
+                filePath,
+                reason: error?.message
+            });
+        }
+    }
+
+    private hashAudio(audio: SpeechProviderAudio): string {
+        const hash = createHash('sha256');
+        if (audio.content) {
+            hash.update(audio.content);
+        } else {
+            hash.update(`uri:${audio.uri || ''}`);
+        }
+        return hash.digest('hex');
+    }
+
+    private recordingFile(recordingId: string): string {
+        return `recording-${recordingId.replace(/[^A-Za-z0-9_-]/g, '_')}.json`;
+    }
+
+    private audioFile(audioHash: string): string {
+        return `audio-${audioHash}.json`;
+    }
+}
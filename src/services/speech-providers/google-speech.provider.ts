@@ -0,0 +1,164 @@
+// src/services/speech-providers/google-speech.provider.ts
+
+import {SpeechClient} from '@google-cloud/speech';
+import {logger} from '../../utils/logger.util';
+import {createCancellationError} from '../../utils/processing-error.util';
+import type {SpeechRecognitionConfig, SpeechRecognitionResult} from '../../interfaces/audio.interface';
+import type {
+    SpeechProcessingOptions,
+    SpeechProviderAudio,
+    SpeechProviderResponse,
+    SpeechRecognitionProvider
+} from '../../interfaces/speech-provider.interface';
+
+/**
+ * Google Cloud Speech-to-Text. Small inline audio is recognized synchronously;
+ * larger audio and storage URIs use long running recognition.
+ */
+export class GoogleSpeechProvider implements SpeechRecognitionProvider {
+    readonly name = 'google' as const;
+    private speechClient: SpeechClient;
+
+    constructor() {
+        this.speechClient = new SpeechClient();
+    }
+
+    async recognize(
+        audio: SpeechProviderAudio,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions
+    ): Promise<SpeechProviderResponse> {
+        const request = {
+            audio: audio.content
+                ? {content: audio.content.toString('base64')} // Google expects base64 encoded audio
+                : {uri: audio.uri},
+            config: {
+                encoding: config.encoding as any,
+                sampleRateHertz: config.sampleRateHertz,
+                audioChannelCount: config.audioChannelCount,
+                enableSeparateRecognitionPerChannel: config.enableSeparateRecognitionPerChannel || false,
+                languageCode: config.languageCode,
+                alternativeLanguageCodes: config.alternativeLanguageCodes,
+                maxAlternatives: config.maxAlternatives || 1,
+                profanityFilter: config.profanityFilter || false,
+                speechContexts: config.speechContexts || [],
+                enableWordTimeOffsets: config.enableWordTimeOffsets || false,
+                enableAutomaticPunctuation: config.enableAutomaticPunctuation !== false,
+                diarizationConfig: config.diarizationConfig,
+                model: config.model as any,
+                useEnhanced: config.useEnhanced || false
+            },
+        };
+
+        logger.debug('Google Speech-to-Text configuration:', {
+            encoding: request.config.encoding,
+            sampleRate: request.config.sampleRateHertz,
+            language: request.config.languageCode,
+            diarization: request.config.diarizationConfig?.enableSpeakerDiarization,
+            minSpeakers: request.config.diarizationConfig?.minSpeakerCount,
+            maxSpeakers: request.config.diarizationConfig?.maxSpeakerCount,
+            enhanced: request.config.useEnhanced,
+            model: request.config.model,
+            audioSize: audio.content?.length,
+            costOptimization: config.costOptimization
+        });
+
+        // For small audio files, use synchronous recognition
+        // For larger files (>1MB or >60 seconds) and storage URIs, use long running recognition
+        const useAsyncProcessing = !audio.content ||
+            audio.content.length > 1024 * 1024 ||
+            (config.sampleRateHertz && config.sampleRateHertz * 60 < audio.content.length / 2);
+
+        let response: any;
+        if (useAsyncProcessing) {
+            logger.info('Using long running recognition');
+            const [operation] = await this.speechClient.longRunningRecognize(request);
+            [response] = await this.waitForOperation(operation, options);
+        } else {
+            logger.info('Using synchronous recognition for small audio buffer');
+            [response] = await this.speechClient.recognize(request);
+        }
+
+        return {
+            results: (response?.results || []).map((result: any) => this.normalizeResult(result)),
+            billedSeconds: this.toSeconds(response?.totalBilledTime)
+        };
+    }
+
+    /**
+     * Convert Google's protobuf durations and nullable fields into plain values
+     */
+    private normalizeResult(result: any): SpeechRecognitionResult {
+        return {
+            alternatives: (result.alternatives || []).map((alternative: any) => ({
+                transcript: alternative.transcript || '',
+                confidence: Number(alternative.confidence) || 0,
+                ...(alternative.words?.length && {
+                    words: alternative.words.map((word: any) => ({
+                        word: String(word.word || ''),
+                        startTime: this.toSeconds(word.startTime),
+                        endTime: this.toSeconds(word.endTime),
+                        confidence: Number(word.confidence) || 0,
+                        speakerTag: Number(word.speakerTag) || 0
+                    }))
+                })
+            })),
+            ...(result.channelTag && {channelTag: result.channelTag}),
+            ...(result.languageCode && {languageCode: result.languageCode}),
+            ...(result.resultEndTime && {resultEndTime: this.toSeconds(result.resultEndTime)})
+        };
+    }
+
+    /**
+     * Wait for a long running operation, forwarding progress to the caller and
+     * cancelling the operation on Google's side when the caller aborts
+     */
+    private waitForOperation<R>(
+        operation: {
+            name?: string | null;
+            on(event: 'progress', listener: (metadata: any) => void): unknown;
+            promise(): Promise<R>;
+            cancel(): Promise<unknown>;
+        },
+        options: SpeechProcessingOptions
+    ): Promise<R> {
+        if (options.onProgress) {
+            operation.on('progress', (metadata: any) => {
+                const percent = Number(metadata?.progressPercent);
+                if (!isNaN(percent)) {
+                    options.onProgress!(percent);
+                }
+            });
+        }
+
+        const signal = options.signal;
+        if (!signal) {
+            return operation.promise();
+        }
+
+        return new Promise<R>((resolve, reject) => {
+            const onAbort = (): void => {
+                logger.info(`Cancelling speech operation: ${operation.name}`);
+                operation.cancel().catch(error => logger.warn(`Failed to cancel speech operation: ${operation.name}`, error));
+                reject(createCancellationError());
+            };
+
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+
+            signal.addEventListener('abort', onAbort, {once: true});
+            operation.promise()
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private toSeconds(duration: any): number {
+        if (!duration) return 0;
+        if (typeof duration === 'number') return duration;
+        if (typeof duration === 'string') return parseFloat(duration) || 0;
+        return Number(duration.seconds || 0) + (Number(duration.nanos) || 0) / 1e9;
+    }
+}
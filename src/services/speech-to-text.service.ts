@@ -1,28 +1,55 @@
 // src/services/speech-to-text.service.ts
-import {SpeechClient} from '@google-cloud/speech';
 import {logger} from '../utils/logger.util';
+import {createAudioTooLongError, createCancellationError, toProcessingFailure} from '../utils/processing-error.util';
+import {speechProviderService} from './speech-provider.service';
+import {parseWav, sliceWav, WavInfo} from '../utils/wav.util';
+import {stitchWindows} from '../utils/transcript-stitching.util';
+import {compactWordTimings} from '../utils/word-timings.util';
+import {extractSpeakerSegments, getAuthoritativeWords} from '../utils/diarization.util';
+import {segmentMessages} from '../utils/message-segmentation.util';
+import {applyAlternativeEdits, getAlternativeEdits} from '../utils/message-alternatives.util';
+import {classifyMessage, MessageTypeOptions} from '../utils/message-type.util';
+import {getMessageTypeRuleSet} from '../config/message-types.config';
+import {
+    getLanguageSpans,
+    languageAt,
+    majorityLanguage,
+    MAX_ALTERNATIVE_LANGUAGES,
+    normalizeLanguageCode
+} from '../utils/language.util';
+import {getChunkingConfig, SegmentationConfig} from '../config/processing.config';
+import {CostCalculator, DEFAULT_OPTIMIZATION_SETTINGS} from '../config/cost-optimization.config';
 import type {
     AudioEncoding,
     DiarizationResult,
     SpeakerSegment,
     SpeechRecognitionConfig,
+    SpeechRecognitionResult,
     SpeechToTextResponse
 } from '../interfaces/audio.interface';
-import type {ConversationData} from '../interfaces/conversation.interface';
+import type {ConversationData, SpeakerRole} from '../interfaces/conversation.interface';
+import type {
+    SpeechProcessingOptions,
+    SpeechProviderAudio,
+    SpeechProviderResponse
+} from '../interfaces/speech-provider.interface';
+
+export type {SpeechProcessingOptions} from '../interfaces/speech-provider.interface';
+
+// Twilio records the calling party on channel 1 and the called party on channel 2
+const CHANNEL_ROLES: Record<number, { role: SpeakerRole; label: string }> = {
+    1: {role: 'caller', label: 'Caller'},
+    2: {role: 'callee', label: 'Callee'}
+};
 
 /**
- * Enhanced Speech-to-Text service with Twilio audio buffer support
+ * Enhanced Speech-to-Text service with Twilio audio buffer support.
+ * Recognition is delegated to the provider selected in the config.
  */
 export class SpeechToTextService {
     private static instance: SpeechToTextService;
-    private speechClient: SpeechClient;
-
-    // Cost tracking
-    private readonly COST_PER_MINUTE_BASE = 0.016; // With data logging
-    private readonly COST_PER_MINUTE_NO_LOGGING = 0.024; // Without data logging
 
     private constructor() {
-        this.speechClient = new SpeechClient();
     }
 
     static getInstance(): SpeechToTextService {
@@ -33,58 +60,32 @@ export class SpeechToTextService {
     }
 
     /**
-     * Process audio buffer from Twilio recording
+     * Process audio buffer from Twilio recording. Recordings longer than one
+     * window are split into overlapping windows and stitched back together.
      */
-    async processAudioBuffer(audioBuffer: Buffer, config: SpeechRecognitionConfig): Promise<SpeechToTextResponse> {
+    async processAudioBuffer(
+        audioBuffer: Buffer,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions = {}
+    ): Promise<SpeechToTextResponse> {
         try {
             logger.info(`Starting speech-to-text processing for audio buffer (${audioBuffer.length} bytes)`);
 
             // Apply cost optimization settings
             const optimizedConfig = this.applyCostOptimization(config);
 
-            const request = {
-                audio: {
-                    content: audioBuffer.toString('base64'), // Google expects base64 encoded audio
-                },
-                config: {
-                    encoding: optimizedConfig.encoding as any,
-                    sampleRateHertz: optimizedConfig.sampleRateHertz,
-                    languageCode: optimizedConfig.languageCode,
-                    alternativeLanguageCodes: optimizedConfig.alternativeLanguageCodes,
-                    maxAlternatives: optimizedConfig.maxAlternatives || 1,
-                    profanityFilter: optimizedConfig.profanityFilter || false,
-                    speechContexts: optimizedConfig.speechContexts || [],
-                    enableWordTimeOffsets: optimizedConfig.enableWordTimeOffsets || false,
-                    enableAutomaticPunctuation: optimizedConfig.enableAutomaticPunctuation !== false,
-                    diarizationConfig: optimizedConfig.diarizationConfig,
-                    model: optimizedConfig.model as any,
-                    useEnhanced: optimizedConfig.useEnhanced || false
-                },
-            };
-
-            logger.debug('Speech-to-Text configuration for buffer processing:', {
-                encoding: request.config.encoding,
-                sampleRate: request.config.sampleRateHertz,
-                language: request.config.languageCode,
-                diarization: request.config.diarizationConfig?.enableSpeakerDiarization,
-                audioSize: audioBuffer.length,
-                costOptimization: optimizedConfig.costOptimization
-            });
+            const wav = parseWav(audioBuffer);
+            if (wav) {
+                this.assertWithinMaxDuration(wav.duration);
 
-            // For small audio files, use synchronous recognition
-            // For larger files (>1MB or >60 seconds), use long running recognition
-            const useAsyncProcessing = audioBuffer.length > 1024 * 1024 || (config.sampleRateHertz && config.sampleRateHertz * 60 < audioBuffer.length / 2);
-
-            let response;
-            if (useAsyncProcessing) {
-                logger.info('Using long running recognition for large audio buffer');
-                const [operation] = await this.speechClient.longRunningRecognize(request);
-                [response] = await operation.promise();
-            } else {
-                logger.info('Using synchronous recognition for small audio buffer');
-                [response] = await this.speechClient.recognize(request);
+                const windows = this.planWindows(wav);
+                if (windows.length > 1) {
+                    return await this.processChunkedBuffer(audioBuffer, wav, windows, optimizedConfig, options);
+                }
             }
 
+            const response = await this.recognize({content: audioBuffer}, optimizedConfig, options);
+
             if (!response.results || response.results.length === 0) {
                 logger.warn('No speech recognition results returned from buffer processing');
                 return {
@@ -94,69 +95,258 @@ export class SpeechToTextService {
                 };
             }
 
-            const billedTime = this.parseDuration(response.totalBilledTime);
+            const billedTime = response.billedSeconds / 60;
 
             logger.info(`Speech-to-text buffer processing completed. Found ${response.results.length} result segments`);
             logger.info(`Billed time: ${billedTime} minutes, Estimated cost: $${this.calculateCostEstimate(billedTime, optimizedConfig).totalEstimatedCost}`);
 
             return {
-                results: response.results || [],
+                results: this.labelResultLanguages(response.results, optimizedConfig.languageCode),
+                languageCode: optimizedConfig.languageCode,
+                ...(optimizedConfig.enableSeparateRecognitionPerChannel && {speakerAttribution: 'channel' as const}),
                 totalBilledTime: billedTime,
                 costEstimate: this.calculateCostEstimate(billedTime, optimizedConfig)
             };
 
         } catch (error) {
             logger.error('Speech-to-Text buffer processing failed:', error);
-            throw new Error(`Speech processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw toProcessingFailure('Speech processing failed', error);
         }
     }
 
     /**
-     * Process audio file with cost optimization (existing method - keep for GCS files)
+     * Send audio to the provider selected in the config
+     */
+    private async recognize(
+        audio: SpeechProviderAudio,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions
+    ): Promise<SpeechProviderResponse> {
+        const provider = speechProviderService.getProvider(config.provider);
+        logger.info(`Recognizing speech with provider: ${provider.name}`);
+        const response = await provider.recognize(audio, config, options);
+
+        return config.enableSeparateRecognitionPerChannel ? this.attributeChannels(response) : response;
+    }
+
+    /**
+     * Per-channel results get the same shape as a diarized response: a trailing
+     * result repeating every word in time order, tagged with its channel
      */
-    async processAudioFile(audioUrl: string, config: SpeechRecognitionConfig): Promise<SpeechToTextResponse> {
+    private attributeChannels(response: SpeechProviderResponse): SpeechProviderResponse {
+        const words = response.results
+            .filter(result => result.channelTag)
+            .flatMap(result => (result.alternatives[0]?.words || []).map(word => ({
+                ...word,
+                speakerTag: result.channelTag!,
+                ...(result.languageCode && {languageCode: normalizeLanguageCode(result.languageCode)})
+            })))
+            .sort((a, b) => a.startTime - b.startTime);
+
+        if (words.length === 0) {
+            return response;
+        }
+
+        return {
+            ...response,
+            results: [...response.results, {
+                alternatives: [{
+                    transcript: words.map(word => word.word).join(' '),
+                    confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+                    words
+                }]
+            }]
+        };
+    }
+
+    /**
+     * Transcribe overlapping windows in parallel and stitch them into one
+     * diarized result with speaker tags that are consistent across windows
+     */
+    private async processChunkedBuffer(
+        audioBuffer: Buffer,
+        wav: WavInfo,
+        windows: Array<{ start: number; end: number }>,
+        optimizedConfig: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions
+    ): Promise<SpeechToTextResponse> {
+        const chunking = getChunkingConfig();
+        const windowConfig = {...optimizedConfig, sampleRateHertz: wav.sampleRate};
+
+        logger.info(`Splitting ${wav.duration.toFixed(1)}s of audio into ${windows.length} windows ` +
+            `(${chunking.overlapSeconds}s overlap, ${chunking.concurrency} in parallel)`);
+
+        // One failed window stops the others; a caller abort stops all of them
+        const controller = new AbortController();
+        const abort = (): void => controller.abort();
+        options.signal?.addEventListener('abort', abort, {once: true});
+        if (options.signal?.aborted) {
+            abort();
+        }
+
+        const progress = windows.map(() => 0);
+        const reportProgress = (): void => options.onProgress?.(
+            Math.round(progress.reduce((sum, percent) => sum + percent, 0) / windows.length)
+        );
+
         try {
-            logger.info(`Starting cost-optimized speech-to-text processing for: ${audioUrl}`);
+            const responses = await this.runWithConcurrency(windows.length, chunking.concurrency, async index => {
+                if (controller.signal.aborted) {
+                    throw createCancellationError();
+                }
 
-            // Apply cost optimization settings
-            const optimizedConfig = this.applyCostOptimization(config);
+                const window = windows[index];
+                const chunk = sliceWav(audioBuffer, wav, window.start, window.end);
+
+                try {
+                    const response = await this.recognize({content: chunk}, windowConfig, {
+                        signal: controller.signal,
+                        onProgress: percent => {
+                            progress[index] = percent;
+                            reportProgress();
+                        }
+                    });
+
+                    progress[index] = 100;
+                    reportProgress();
+                    logger.info(`Window ${index + 1}/${windows.length} transcribed (${window.start.toFixed(0)}s-${window.end.toFixed(0)}s)`);
+                    return response;
+                } catch (error) {
+                    controller.abort();
+                    throw error;
+                }
+            });
 
-            const request = {
-                audio: {
-                    uri: audioUrl,
-                },
-                config: {
-                    encoding: optimizedConfig.encoding as any,
-                    sampleRateHertz: optimizedConfig.sampleRateHertz,
-                    languageCode: optimizedConfig.languageCode,
-                    alternativeLanguageCodes: optimizedConfig.alternativeLanguageCodes,
-                    maxAlternatives: optimizedConfig.maxAlternatives || 1,
-                    profanityFilter: optimizedConfig.profanityFilter || false,
-                    speechContexts: optimizedConfig.speechContexts || [],
-                    enableWordTimeOffsets: optimizedConfig.enableWordTimeOffsets || false,
-                    enableAutomaticPunctuation: optimizedConfig.enableAutomaticPunctuation !== false,
-                    diarizationConfig: optimizedConfig.diarizationConfig,
-                    model: optimizedConfig.model as any,
-                    useEnhanced: optimizedConfig.useEnhanced || false
-                },
-            };
+            // Each window reports its own languages; words keep theirs through stitching
+            const stitched = stitchWindows(windows.map((window, index) => {
+                const spans = getLanguageSpans(responses[index]?.results || [], optimizedConfig.languageCode);
+                return {
+                    ...window,
+                    words: getAuthoritativeWords(responses[index]?.results || []).map(word => ({
+                        ...word,
+                        languageCode: word.languageCode ||
+                            languageAt(spans, word.startTime, optimizedConfig.languageCode)
+                    }))
+                };
+            }), {reconcileSpeakers: !optimizedConfig.enableSeparateRecognitionPerChannel});
+
+            // Alternatives stay per window result; their times are shifted onto the recording
+            const alternativeEdits = windows.flatMap((window, index) =>
+                getAlternativeEdits(responses[index]?.results || [], window.start)
+            );
+
+            const billedTime = responses.reduce((sum, response) => sum + response.billedSeconds, 0) / 60;
+            const costEstimate = this.calculateCostEstimate(billedTime, optimizedConfig);
 
-            logger.debug('Cost-optimized Speech-to-Text configuration:', {
-                encoding: request.config.encoding,
-                sampleRate: request.config.sampleRateHertz,
-                language: request.config.languageCode,
-                diarization: request.config.diarizationConfig?.enableSpeakerDiarization,
-                minSpeakers: request.config.diarizationConfig?.minSpeakerCount,
-                maxSpeakers: request.config.diarizationConfig?.maxSpeakerCount,
-                enhanced: request.config.useEnhanced,
-                model: request.config.model,
-                costOptimization: optimizedConfig.costOptimization
+            logger.info(`Stitched ${windows.length} windows into ${stitched.words.length} words`, {
+                speakerMappings: stitched.speakerMappings
             });
+            logger.info(`Billed time: ${billedTime} minutes, Estimated cost: $${costEstimate.totalEstimatedCost}`);
+
+            if (stitched.words.length === 0) {
+                return {results: [], languageCode: optimizedConfig.languageCode, totalBilledTime: billedTime, costEstimate};
+            }
+
+            // Same shape as a single diarized response: one result holding every word
+            const confidence = stitched.words.reduce((sum, word) => sum + word.confidence, 0) / stitched.words.length;
+            return {
+                results: [{
+                    alternatives: [{
+                        transcript: stitched.words.map(word => word.word).join(' '),
+                        confidence,
+                        words: stitched.words
+                    }],
+                    languageCode: majorityLanguage(
+                        stitched.words.map(word => word.languageCode || optimizedConfig.languageCode),
+                        optimizedConfig.languageCode
+                    )
+                }],
+                languageCode: optimizedConfig.languageCode,
+                ...(optimizedConfig.enableSeparateRecognitionPerChannel && {speakerAttribution: 'channel' as const}),
+                ...(alternativeEdits.length > 0 && {alternativeEdits}),
+                totalBilledTime: billedTime,
+                costEstimate
+            };
+        } finally {
+            options.signal?.removeEventListener('abort', abort);
+        }
+    }
+
+    /**
+     * Split audio into overlapping windows small enough to send inline
+     */
+    private planWindows(wav: WavInfo): Array<{ start: number; end: number }> {
+        const chunking = getChunkingConfig();
+        const windowSeconds = Math.min(chunking.windowSeconds, Math.floor(chunking.maxInlineBytes / wav.byteRate));
+
+        if (wav.duration <= windowSeconds) {
+            return [{start: 0, end: wav.duration}];
+        }
+
+        const step = windowSeconds - Math.min(chunking.overlapSeconds, Math.floor(windowSeconds / 2));
+        const windows: Array<{ start: number; end: number }> = [];
+
+        for (let start = 0; ; start += step) {
+            const end = Math.min(start + windowSeconds, wav.duration);
+            windows.push({start, end});
+            if (end >= wav.duration) {
+                break;
+            }
+        }
+
+        return windows;
+    }
+
+    /**
+     * Give every result a normalized language, the requested one when Google did not detect any
+     */
+    private labelResultLanguages(results: SpeechRecognitionResult[], fallback: string): SpeechRecognitionResult[] {
+        return results.map(result => ({
+            ...result,
+            languageCode: result.languageCode ? normalizeLanguageCode(result.languageCode) : fallback
+        }));
+    }
+
+    private async runWithConcurrency<T>(count: number, concurrency: number, task: (index: number) => Promise<T>): Promise<T[]> {
+        const results: T[] = new Array(count);
+        let next = 0;
+
+        const worker = async (): Promise<void> => {
+            while (next < count) {
+                const index = next++;
+                results[index] = await task(index);
+            }
+        };
+
+        await Promise.all(Array.from({length: Math.min(concurrency, count)}, worker));
+        return results;
+    }
+
+    /**
+     * Refuse audio longer than the configured maximum before anything is billed
+     */
+    private assertWithinMaxDuration(durationSeconds: number): void {
+        const maxDuration = DEFAULT_OPTIMIZATION_SETTINGS.maxAudioDuration;
+        if (durationSeconds > maxDuration) {
+            throw createAudioTooLongError(durationSeconds, maxDuration);
+        }
+    }
 
-            const [operation] = await this.speechClient.longRunningRecognize(request);
-            logger.info('Speech-to-Text operation started, waiting for completion...');
+    /**
+     * Process audio file with cost optimization (existing method - keep for GCS files)
+     */
+    async processAudioFile(
+        audioUrl: string,
+        config: SpeechRecognitionConfig,
+        options: SpeechProcessingOptions = {}
+    ): Promise<SpeechToTextResponse> {
+        try {
+            logger.info(`Starting cost-optimized speech-to-text processing for: ${audioUrl}`);
 
-            const [response] = await operation.promise();
+            // Apply cost optimization settings
+            const optimizedConfig = this.applyCostOptimization(config);
+
+            const response = await this.recognize({uri: audioUrl}, optimizedConfig, options);
 
             if (!response.results || response.results.length === 0) {
                 logger.warn('No speech recognition results returned');
@@ -167,20 +357,22 @@ export class SpeechToTextService {
                 };
             }
 
-            const billedTime = this.parseDuration(response.totalBilledTime);
+            const billedTime = response.billedSeconds / 60;
 
             logger.info(`Speech-to-Text completed. Found ${response.results.length} result segments`);
             logger.info(`Billed time: ${billedTime} minutes, Estimated cost: $${this.calculateCostEstimate(billedTime, optimizedConfig).totalEstimatedCost}`);
 
             return {
-                results: response.results || [],
+                results: this.labelResultLanguages(response.results, optimizedConfig.languageCode),
+                languageCode: optimizedConfig.languageCode,
+                ...(optimizedConfig.enableSeparateRecognitionPerChannel && {speakerAttribution: 'channel' as const}),
                 totalBilledTime: billedTime,
                 costEstimate: this.calculateCostEstimate(billedTime, optimizedConfig)
             };
 
         } catch (error) {
             logger.error('Speech-to-Text processing failed:', error);
-            throw new Error(`Speech processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw toProcessingFailure('Speech processing failed', error);
         }
     }
 
@@ -249,10 +441,10 @@ export class SpeechToTextService {
             logger.info('Using default model for cost optimization');
         }
 
-        // Limit alternative languages for cost
-        if (optimized.alternativeLanguageCodes && optimized.alternativeLanguageCodes.length > 1) {
-            optimized.alternativeLanguageCodes = optimized.alternativeLanguageCodes.slice(0, 1);
-            logger.info('Limited alternative languages to 1 for cost optimization');
+        // Alternative languages are not billed; keep every candidate Google accepts
+        if (optimized.alternativeLanguageCodes && optimized.alternativeLanguageCodes.length > MAX_ALTERNATIVE_LANGUAGES) {
+            optimized.alternativeLanguageCodes = optimized.alternativeLanguageCodes.slice(0, MAX_ALTERNATIVE_LANGUAGES);
+            logger.info(`Limited alternative languages to ${MAX_ALTERNATIVE_LANGUAGES}`);
         }
 
         // Disable enhanced features unless explicitly required
@@ -273,104 +465,49 @@ export class SpeechToTextService {
         totalEstimatedCost: number;
         currency: string;
     } {
-        const useDataLogging = config.costOptimization?.enableDataLogging !== false;
-        const baseRate = useDataLogging ? this.COST_PER_MINUTE_BASE : this.COST_PER_MINUTE_NO_LOGGING;
-
-        let baseCost = billedMinutes * baseRate;
-        let premiumCost = 0;
-
-        // Calculate premium feature costs
-        if (config.diarizationConfig?.enableSpeakerDiarization) {
-            premiumCost += baseCost * 0.6; // 60% premium for diarization
-        }
-
-        if (config.useEnhanced) {
-            premiumCost += baseCost * 0.25; // 25% premium for enhanced models
-        }
-
-        if (config.enableWordTimeOffsets) {
-            premiumCost += baseCost * 0.1; // 10% premium for word timestamps
-        }
-
-        const totalCost = baseCost + premiumCost;
+        // Billed time already counts every recognized channel
+        const cost = CostCalculator.calculateFeatureCost(billedMinutes, {
+            ...CostCalculator.getConfigFeatures(config),
+            channels: 1
+        });
 
         return {
             baseMinutes: billedMinutes,
-            premiumFeatureCost: Math.round(premiumCost * 100) / 100,
-            totalEstimatedCost: Math.round(totalCost * 100) / 100,
+            premiumFeatureCost: Math.round(cost.premiumCost * 100) / 100,
+            totalEstimatedCost: Math.round(cost.totalCost * 100) / 100,
             currency: 'USD'
         };
     }
 
     /**
-     * Extract speaker diarization data from speech results
+     * Extract speaker segments from the authoritative (last, tagged) result.
+     * Short spurious speaker flips are smoothed unless speakers come from channels.
      */
     extractSpeakerDiarization(speechResults: SpeechToTextResponse): DiarizationResult {
-        const segments: SpeakerSegment[] = [];
-        const speakerStats = new Map<number, { totalTime: number; segmentCount: number }>();
-        let totalDuration = 0;
-
-        for (const result of speechResults.results) {
-            if (!result.alternatives || result.alternatives.length === 0) continue;
+        const attribution = speechResults.speakerAttribution || 'diarization';
+        const fallbackLanguage = speechResults.languageCode || 'en-US';
 
-            const alternative = result.alternatives[0];
-            if (!alternative.words) continue;
-
-            // Skip results that don't have speaker tags
-            const hasValidSpeakerTags = alternative.words.some((word: { speakerTag: number; }) => word.speakerTag && word.speakerTag > 0);
-            if (!hasValidSpeakerTags) {
-                continue;
-            }
+        const segments = extractSpeakerSegments(speechResults.results, {
+            smoothFlips: attribution !== 'channel',
+            fallbackLanguage,
+            languageSpans: getLanguageSpans(speechResults.results, fallbackLanguage)
+        });
 
-            let currentSegment: SpeakerSegment | null = null;
-
-            for (const word of alternative.words) {
-                const speakerTag = word.speakerTag || 1;
-                const startTime = this.parseTime(word.startTime);
-                const endTime = this.parseTime(word.endTime);
-
-                totalDuration = Math.max(totalDuration, endTime);
-
-                // Start new segment if speaker changed or no current segment
-                if (!currentSegment || currentSegment.speakerTag !== speakerTag) {
-                    // Finalize previous segment
-                    if (currentSegment) {
-                        segments.push(currentSegment);
-                        this.updateSpeakerStats(speakerStats, currentSegment);
-                    }
-
-                    // Start new segment
-                    currentSegment = {
-                        speakerTag,
-                        startTime,
-                        endTime,
-                        confidence: word.confidence || 0,
-                        transcript: word.word,
-                        words: [word]
-                    };
-                } else {
-                    // Continue current segment
-                    currentSegment.endTime = endTime;
-                    currentSegment.transcript += ' ' + word.word;
-                    currentSegment.words!.push(word);
-                    currentSegment.confidence = (currentSegment.confidence + (word.confidence || 0)) / 2;
-                }
-            }
+        const speakerStats = new Map<number, { totalTime: number; segmentCount: number }>();
+        segments.forEach(segment => this.updateSpeakerStats(speakerStats, segment));
 
-            // Add final segment
-            if (currentSegment) {
-                segments.push(currentSegment);
-                this.updateSpeakerStats(speakerStats, currentSegment);
-            }
-        }
+        const alternativeEdits = speechResults.alternativeEdits ?? getAlternativeEdits(speechResults.results);
 
         const speakerCount = speakerStats.size;
-        logger.info(`Diarization complete: ${speakerCount} speakers, ${segments.length} segments, ${totalDuration.toFixed(2)}s total`);
+        const totalDuration = Math.max(0, ...segments.map(segment => segment.endTime));
+        logger.info(`Diarization complete (${attribution}): ${speakerCount} speakers, ${segments.length} segments, ${totalDuration.toFixed(2)}s total`);
 
         return {
             segments,
             speakerCount,
             totalDuration,
+            attribution,
+            ...(alternativeEdits.length > 0 && {alternativeEdits}),
             costOptimizationApplied: {
                 reducedSpeakerLimit: true,
                 simplifiedModel: true,
@@ -380,11 +517,21 @@ export class SpeechToTextService {
     }
 
     /**
-     * Convert diarization result to structured conversation format
+     * Convert diarization result to structured conversation format. Speakers
+     * come from the diarization segments; with segmentation set, messages are
+     * split by sentence, pause and length instead of one per speaker run.
+     * With maxAlternatives above 1, messages carry up to maxAlternatives - 1
+     * alternatives.
      */
     convertToConversationFormat(
         diarizationResult: DiarizationResult,
-        conversationData: ConversationData
+        conversationData: ConversationData,
+        options: {
+            includeWordTimings?: boolean;
+            segmentation?: SegmentationConfig;
+            maxAlternatives?: number;
+            messageTypes?: MessageTypeOptions;
+        } = {}
     ): { speakers: ConversationData['speakers']; messages: ConversationData['messages'] } {
         const speakerMap = new Map<number, string>();
         const speakers: ConversationData['speakers'] = [];
@@ -405,9 +552,13 @@ export class SpeechToTextService {
                 0
             );
 
+            const channelRole = diarizationResult.attribution === 'channel' ? CHANNEL_ROLES[speakerTag] : undefined;
+
             speakers.push({
                 id: speakerId,
-                label: `Speaker ${speakerTag}`,
+                label: channelRole ? channelRole.label : `Speaker ${speakerTag}`,
+                ...(diarizationResult.attribution === 'channel' && {channel: speakerTag}),
+                ...(channelRole && {role: channelRole.role}),
                 identifiedName: undefined,
                 totalSpeakingTime: Math.round(totalSpeakingTime * 100) / 100,
                 messageCount: 0, // Will be updated below
@@ -415,25 +566,69 @@ export class SpeechToTextService {
             });
         });
 
+        let messageSegments = diarizationResult.segments;
+        if (options.segmentation) {
+            const segmented = segmentMessages(diarizationResult.segments, options.segmentation);
+            messageSegments = segmented.segments;
+
+            if (segmented.dropped > 0) {
+                logger.info(`Dropped ${segmented.dropped} messages below confidence ${options.segmentation.confidenceThreshold}`);
+            }
+        }
+
+        const alternativeEdits = diarizationResult.alternativeEdits || [];
+        const alternativeLimit = Math.max(0, (options.maxAlternatives || 1) - 1);
+        const messageTypeOptions = {...options.messageTypes, rules: options.messageTypes?.rules || getMessageTypeRuleSet()};
+
         // Convert segments to messages
-        diarizationResult.segments.forEach((segment, index) => {
+        messageSegments.forEach(segment => {
             const speakerId = speakerMap.get(segment.speakerTag);
             if (!speakerId || !segment.transcript?.trim()) return;
 
-            const messageId = `msg_${String(index + 1).padStart(3, '0')}`;
+            const order = messages.length + 1;
+            const messageId = `msg_${String(order).padStart(3, '0')}`;
             const content = segment.transcript.trim();
+            const startTime = Math.round(segment.startTime * 100) / 100;
+            const endTime = Math.round(segment.endTime * 100) / 100;
+            const classification = classifyMessage(
+                {speakerId, content, startTime, endTime, language: segment.languageCode},
+                messages,
+                messageTypeOptions
+            );
 
             messages.push({
                 messageId,
                 speakerId,
                 content,
-                startTime: Math.round(segment.startTime * 100) / 100,
-                endTime: Math.round(segment.endTime * 100) / 100,
+                startTime,
+                endTime,
                 confidence: Math.round(segment.confidence * 100) / 100,
-                messageType: this.detectMessageType(content),
-                order: index + 1,
-                wordCount: content.split(/\s+/).length,
-                alternatives: []
+                messageType: classification.messageType,
+                order,
+                wordCount: segment.wordCount ?? content.split(/\s+/).length,
+                language: segment.languageCode,
+                ...(options.includeWordTimings && segment.words?.length && {
+                    wordTimings: compactWordTimings(segment.words.map(word => ({
+                        word: word.word,
+                        startTime: this.parseTime(word.startTime),
+                        endTime: this.parseTime(word.endTime),
+                        confidence: word.confidence || 0
+                    })), startTime)
+                }),
+                alternatives: alternativeLimit > 0 && segment.words?.length
+                    ? applyAlternativeEdits(
+                        segment.words,
+                        // A channel's alternatives only apply to that channel's words
+                        diarizationResult.attribution === 'channel'
+                            ? alternativeEdits.filter(edit => edit.channelTag === segment.speakerTag)
+                            : alternativeEdits,
+                        alternativeLimit
+                    )
+                    : [],
+                analysis: {
+                    messageTypeConfidence: classification.confidence,
+                    indicators: classification.indicators
+                }
             });
         });
 
@@ -499,26 +694,6 @@ export class SpeechToTextService {
         return 0;
     }
 
-    private parseDuration(duration: any): number {
-        if (!duration) return 0;
-        if (typeof duration === 'number') return duration;
-
-        if (duration.seconds !== undefined) {
-            return Number(duration.seconds) + (Number(duration.nanos) || 0) / 1e9;
-        }
-
-        if (typeof duration === 'string') {
-            const parsed = parseFloat(duration);
-            return isNaN(parsed) ? 0 : parsed;
-        }
-
-        if (duration.toNumber && typeof duration.toNumber === 'function') {
-            return duration.toNumber();
-        }
-
-        return 0;
-    }
-
     private updateSpeakerStats(
         speakerStats: Map<number, { totalTime: number; segmentCount: number }>,
         segment: SpeakerSegment
@@ -543,40 +718,6 @@ export class SpeechToTextService {
             averageSegmentLength: Math.round(avgSegmentLength * 100) / 100
         };
     }
-
-    private detectMessageType(content: string): 'question' | 'response' | 'statement' | 'interruption' | 'unknown' {
-        const text = content.toLowerCase().trim();
-
-        // Question indicators
-        if (text.endsWith('?') ||
-            text.startsWith('what ') || text.startsWith('how ') ||
-            text.startsWith('when ') || text.startsWith('where ') ||
-            text.startsWith('why ') || text.startsWith('who ') ||
-            text.startsWith('can ') || text.startsWith('could ') ||
-            text.startsWith('would ') || text.startsWith('should ') ||
-            text.startsWith('do ') || text.startsWith('does ') ||
-            text.startsWith('did ') || text.startsWith('is ') ||
-            text.startsWith('are ') || text.startsWith('will ')) {
-            return 'question';
-        }
-
-        // Response indicators
-        if (text.startsWith('yes ') || text.startsWith('no ') ||
-            text.startsWith('sure ') || text.startsWith('okay ') ||
-            text.startsWith('right ') || text.startsWith('exactly ') ||
-            text.includes('i think') || text.includes('i believe') ||
-            text.includes('i would say')) {
-            return 'response';
-        }
-
-        // Interruption indicators
-        if (content.length < 10 || text.includes('wait') || text.includes('sorry') ||
-            text.includes('excuse me') || text.includes('hold on')) {
-            return 'interruption';
-        }
-
-        return 'statement';
-    }
 }
 
 export const speechToTextService = SpeechToTextService.getInstance();
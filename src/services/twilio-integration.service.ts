@@ -2,8 +2,10 @@
 
 import axios from 'axios';
 import {logger} from '../utils/logger.util';
-import {processingService} from './processing.service';
-import {Recording} from "@/interfaces/user.interface";
+import {isAlreadyProcessingError, toProcessingFailure} from '../utils/processing-error.util';
+import {processingQueueService} from './processing-queue.service';
+import {webhookService} from './webhook.service';
+import {Recording, SubscriptionHelper} from "@/interfaces/user.interface";
 import {userMetadataService} from "../services/user-metadata.service";
 import {recordingRepository} from "../repositories/recording.repository";
 
@@ -12,6 +14,8 @@ export interface TwilioRecordingData {
     RecordingSid: string;
     RecordingUrl: string;
     RecordingDuration: string;
+    RecordingChannels?: string; // "2" for dual-channel recordings
+    RecordingSource?: string; // "DialVerb" when a bridged callee is recorded on channel 2
     // Additional Twilio fields can be added
 }
 
@@ -42,16 +46,33 @@ export class TwilioIntegrationService {
     }
 
     /**
-     * Simple method to store recording metadata in Firebase
+     * Store recording metadata in Firebase and queue it for processing when
+     * the user has auto-processing enabled. Repeated Twilio callbacks for the
+     * same RecordingSid are detected and neither stored nor queued again.
      */
     async storeRecordingMetadata(twilioData: TwilioRecordingData, webhookBody: any): Promise<{
         success: boolean;
         recordingId?: string;
+        duplicate?: boolean;
+        processingJobId?: string;
         error?: string;
     }> {
         try {
             logger.info(`Storing recording metadata for CallSid: ${twilioData.CallSid}`);
 
+            // Recording documents are keyed by RecordingSid so duplicate callbacks collapse
+            const recordingId = twilioData.RecordingSid || twilioData.CallSid;
+            const existing = await recordingRepository.findById(recordingId);
+            if (existing) {
+                logger.info(`Duplicate Twilio recording callback ignored: ${recordingId}`);
+                return {
+                    success: true,
+                    recordingId,
+                    duplicate: true,
+                    processingJobId: existing.processingJobId
+                };
+            }
+
             const callData = await this.fetchTwilioCallData(twilioData.CallSid);
 
             const fromNumber = callData.from;
@@ -78,6 +99,7 @@ export class TwilioIntegrationService {
             const callEndTime = callData.end_time || new Date().toISOString();
             const callPrice = Math.abs(parseFloat(callData.price || '0')); // Make price positive
             const callPriceUnit = callData.price_unit || 'USD';
+            const channels = parseInt(twilioData.RecordingChannels || '', 10) === 2 ? 2 : 1;
 
             // Create Recording object with simple data mapping
             const recording: Omit<Recording, 'id' | 'createdAt' | 'updatedAt'> = {
@@ -112,21 +134,61 @@ export class TwilioIntegrationService {
                     twilioAccountSid: AccountSid,
                     callDirection: callData.direction,
                     parentCallSid: callData.parent_call_sid || undefined,
-                    source: 'twilio'
+                    source: 'twilio',
+                    recordingSource: twilioData.RecordingSource || undefined,
+                    // Twilio records 8kHz LINEAR16; dual-channel recordings keep each call leg on its own channel
+                    audio: {
+                        format: 'wav',
+                        encoding: 'LINEAR16',
+                        sampleRateHertz: 8000,
+                        channels
+                    }
                 },
 
                 // Flags
                 deleted: false
             };
 
-            // Store in Firebase using repository
-            await recordingRepository.createRecording(recording as Recording);
+            // Store in Firebase using repository (create fails over to duplicate if a concurrent callback won)
+            const created = await recordingRepository.createRecordingIfAbsent(recordingId, recording);
+            if (!created) {
+                return {success: true, recordingId, duplicate: true};
+            }
 
             logger.info(`Recording metadata stored successfully for CallSid: ${twilioData.CallSid}`);
 
+            webhookService.emit('recording.created', {
+                recordingId,
+                userId: recording.userId,
+                source: 'twilio',
+                callSid: recording.callSid,
+                duration: recording.recordingDuration,
+                autoProcess: SubscriptionHelper.shouldAutoProcess(user)
+            });
+
+            let processingJobId: string | undefined;
+            if (SubscriptionHelper.shouldAutoProcess(user)) {
+                try {
+                    const job = await processingQueueService.enqueueRecording({
+                        ...recording,
+                        id: recordingId
+                    } as Recording);
+                    processingJobId = job.jobId;
+                } catch (error) {
+                    if (isAlreadyProcessingError(error)) {
+                        logger.info(`Recording already queued by another request: ${recordingId}`);
+                    } else {
+                        // The recording stays 'pending' and can still be processed on demand
+                        logger.error(`Failed to queue recording for automatic processing: ${recordingId}`, error);
+                    }
+                }
+            }
+
             return {
                 success: true,
-                recordingId: twilioData.CallSid
+                recordingId,
+                duplicate: false,
+                processingJobId
             };
 
         } catch (error) {
@@ -169,14 +231,16 @@ export class TwilioIntegrationService {
     }
 
     /**
-     * Download recording from Twilio
+     * Download recording from Twilio. Dual-channel recordings are mixed to mono
+     * unless both channels are requested.
      */
-    public async downloadRecording(recordingUrl: string): Promise<Buffer> {
+    public async downloadRecording(recordingUrl: string, channels = 1): Promise<Buffer> {
         const accountSid = process.env.TWILIO_ACCOUNT_SID;
         const authToken = process.env.TWILIO_AUTH_TOKEN;
 
         try {
             const response = await axios.get(recordingUrl, {
+                ...(channels > 1 && {params: {RequestedChannels: channels}}),
                 auth: {
                     username: accountSid!,
                     password: authToken!
@@ -188,7 +252,7 @@ export class TwilioIntegrationService {
             return Buffer.from(response.data);
         } catch (error) {
             logger.error('Failed to download Twilio recording:', error);
-            throw new Error(`Recording download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw toProcessingFailure('Recording download failed', error);
         }
     }
 
@@ -204,20 +268,6 @@ export class TwilioIntegrationService {
         return phoneNumber;
     }
 
-    /**
-     * Trigger background processing
-     */
-    private async triggerBackgroundProcessing(conversationId: string): Promise<void> {
-        try {
-            // Don't await - run in background
-            processingService.processConversation(conversationId).catch(error => {
-                logger.error(`Background processing failed for Twilio recording ${conversationId}:`, error);
-            });
-        } catch (error) {
-            logger.error('Failed to trigger background processing:', error);
-        }
-    }
-
     /**
      * Save error record for debugging
      */
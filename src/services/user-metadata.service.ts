@@ -2,14 +2,20 @@
 
 import {databaseService} from './database.service';
 import {logger} from '../utils/logger.util';
+import {MAX_VOCABULARY_LISTS} from '../utils/speech-adaptation.util';
+import {v4 as uuidv4} from 'uuid';
 import {
     CallAuthorizationRequest,
     CallAuthorizationResponse,
     CreateUserRequest,
     Recording,
     SubscriptionHelper,
+    UpdateUserPreferencesRequest,
     UpdateUserTwilioRequest,
-    User
+    User,
+    UserContact,
+    VocabularyList,
+    VocabularyListRequest
 } from '../interfaces/user.interface';
 
 export class UserMetadataService {
@@ -61,6 +67,7 @@ export class UserMetadataService {
                     totalRecordings: 0,
                     totalMinutesRecorded: 0,
                     monthlyMinutesUsed: 0,
+                    monthlyProcessingCost: 0,
                     lastMonthlyReset: new Date().toISOString()
                 },
 
@@ -190,6 +197,203 @@ export class UserMetadataService {
 
 
 
+    /**
+     * Update user processing preferences from iOS app
+     */
+    async updateUserPreferences(preferencesData: UpdateUserPreferencesRequest): Promise<{
+        success: boolean;
+        preferences?: User['preferences'];
+        autoProcess?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(preferencesData.uid);
+            if (!user) {
+                return { success: false, error: 'User not found' };
+            }
+
+            const preferences = await databaseService.users.updatePreferences(user.uid, preferencesData.preferences);
+
+            logger.info(`User preferences updated from iOS app: ${preferencesData.uid}`);
+            return {
+                success: true,
+                preferences,
+                autoProcess: SubscriptionHelper.shouldAutoProcess({...user, preferences})
+            };
+
+        } catch (error) {
+            logger.error('Error updating user preferences:', error);
+            return { success: false, error: `Failed to update preferences: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Get the user's vocabulary lists
+     */
+    async getVocabulary(uid: string): Promise<{
+        success: boolean;
+        vocabulary?: VocabularyList[];
+        notFound?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(uid);
+            if (!user) {
+                return { success: false, notFound: true, error: 'User not found' };
+            }
+
+            return { success: true, vocabulary: user.vocabulary || [] };
+
+        } catch (error) {
+            logger.error('Error getting vocabulary:', error);
+            return { success: false, error: `Query failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Add a vocabulary list; new lists are enabled unless the request says otherwise
+     */
+    async createVocabularyList(uid: string, input: VocabularyListRequest): Promise<{
+        success: boolean;
+        list?: VocabularyList;
+        notFound?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(uid);
+            if (!user) {
+                return { success: false, notFound: true, error: 'User not found' };
+            }
+
+            const vocabulary = user.vocabulary || [];
+            if (vocabulary.length >= MAX_VOCABULARY_LISTS) {
+                return { success: false, error: `A user can have at most ${MAX_VOCABULARY_LISTS} vocabulary lists` };
+            }
+
+            const now = new Date().toISOString();
+            const list: VocabularyList = {
+                id: uuidv4(),
+                name: input.name!,
+                enabled: input.enabled ?? true,
+                ...(typeof input.boost === 'number' && {boost: input.boost}),
+                phrases: input.phrases || [],
+                createdAt: now,
+                updatedAt: now
+            };
+
+            await databaseService.users.updateVocabulary(user.uid, [...vocabulary, list]);
+
+            logger.info(`Vocabulary list created for user ${uid}: ${list.id} (${list.phrases.length} phrases)`);
+            return { success: true, list };
+
+        } catch (error) {
+            logger.error('Error creating vocabulary list:', error);
+            return { success: false, error: `Failed to create vocabulary list: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Update a vocabulary list; fields left out of the request are kept
+     */
+    async updateVocabularyList(uid: string, listId: string, input: VocabularyListRequest): Promise<{
+        success: boolean;
+        list?: VocabularyList;
+        notFound?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(uid);
+            if (!user) {
+                return { success: false, notFound: true, error: 'User not found' };
+            }
+
+            const vocabulary = user.vocabulary || [];
+            const existing = vocabulary.find(list => list.id === listId);
+            if (!existing) {
+                return { success: false, notFound: true, error: 'Vocabulary list not found' };
+            }
+
+            // A null boost removes the list boost
+            const boost = input.boost === undefined ? existing.boost : input.boost;
+            const list: VocabularyList = {
+                id: existing.id,
+                name: input.name ?? existing.name,
+                enabled: input.enabled ?? existing.enabled,
+                phrases: input.phrases ?? existing.phrases,
+                ...(typeof boost === 'number' && {boost}),
+                createdAt: existing.createdAt,
+                updatedAt: new Date().toISOString()
+            };
+
+            await databaseService.users.updateVocabulary(
+                user.uid,
+                vocabulary.map(entry => entry.id === listId ? list : entry)
+            );
+
+            logger.info(`Vocabulary list updated for user ${uid}: ${listId}`);
+            return { success: true, list };
+
+        } catch (error) {
+            logger.error('Error updating vocabulary list:', error);
+            return { success: false, error: `Failed to update vocabulary list: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Remove a vocabulary list
+     */
+    async deleteVocabularyList(uid: string, listId: string): Promise<{
+        success: boolean;
+        notFound?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(uid);
+            if (!user) {
+                return { success: false, notFound: true, error: 'User not found' };
+            }
+
+            const vocabulary = user.vocabulary || [];
+            if (!vocabulary.some(list => list.id === listId)) {
+                return { success: false, notFound: true, error: 'Vocabulary list not found' };
+            }
+
+            await databaseService.users.updateVocabulary(user.uid, vocabulary.filter(list => list.id !== listId));
+
+            logger.info(`Vocabulary list deleted for user ${uid}: ${listId}`);
+            return { success: true };
+
+        } catch (error) {
+            logger.error('Error deleting vocabulary list:', error);
+            return { success: false, error: `Failed to delete vocabulary list: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
+    /**
+     * Replace the contacts synced from the iOS app
+     */
+    async updateContacts(uid: string, contacts: UserContact[]): Promise<{
+        success: boolean;
+        notFound?: boolean;
+        error?: string;
+    }> {
+        try {
+            const user = await databaseService.users.findByUid(uid);
+            if (!user) {
+                return { success: false, notFound: true, error: 'User not found' };
+            }
+
+            await databaseService.users.updateContacts(user.uid, contacts);
+
+            logger.info(`User contacts synced from iOS app: ${uid} (${contacts.length} contacts)`);
+            return { success: true };
+
+        } catch (error) {
+            logger.error('Error updating user contacts:', error);
+            return { success: false, error: `Failed to update contacts: ${error instanceof Error ? error.message : 'Unknown error'}` };
+        }
+    }
+
     /**
      * Get user by phone number for iOS verification
      */
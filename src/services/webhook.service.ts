@@ -0,0 +1,318 @@
+// src/services/webhook.service.ts
+
+import axios from 'axios';
+import {createHmac, randomBytes} from 'crypto';
+import {v4 as uuidv4} from 'uuid';
+import {webhookEndpointRepository} from '../repositories/webhook-endpoint.repository';
+import {webhookDeliveryRepository} from '../repositories/webhook-delivery.repository';
+import {getWebhookConfig, WEBHOOK_REQUEST_TIMEOUT_MS} from '../config/webhook.config';
+import {classifyError} from '../utils/processing-error.util';
+import {withRetry} from '../utils/retry.util';
+import {logger} from '../utils/logger.util';
+import type {AppWebhookConfig, AppWebhookEndpoint, AppWebhookEvent} from '../interfaces/config.interface';
+import type {
+    CreateWebhookEndpointRequest,
+    PublicWebhookEndpoint,
+    WebhookDelivery,
+    WebhookDeliveryAttempt,
+    WebhookEndpointRecord,
+    WebhookEventPayload
+} from '../interfaces/webhook.interface';
+
+/**
+ * Events emitted by the processing lifecycle
+ */
+export const SUPPORTED_WEBHOOK_EVENTS: AppWebhookEvent[] = [
+    'recording.created',
+    'processing.started',
+    'conversation.completed',
+    'processing.failed'
+];
+
+/**
+ * Resolved delivery target (API-registered or configured endpoint)
+ */
+interface WebhookTarget {
+    id: string;
+    url: string;
+    headers?: Record<string, string>;
+    authentication?: AppWebhookEndpoint['authentication'];
+    secret?: string;
+}
+
+/**
+ * Signed outbound webhooks with retries and a delivery log
+ */
+export class WebhookService {
+    private static instance: WebhookService;
+
+    private config: AppWebhookConfig | null = null;
+
+    private constructor() {
+    }
+
+    static getInstance(): WebhookService {
+        if (!WebhookService.instance) {
+            WebhookService.instance = new WebhookService();
+        }
+        return WebhookService.instance;
+    }
+
+    /**
+     * Emit an event to all subscribed endpoints. Never throws and never
+     * blocks the caller; delivery problems end up in the delivery log.
+     */
+    emit(event: AppWebhookEvent, data: Record<string, any>): void {
+        this.dispatch(event, data).catch(error => logger.error(`Failed to dispatch webhook event ${event}:`, error));
+    }
+
+    /**
+     * Register an endpoint. The signing secret is generated here and only returned once.
+     */
+    async createEndpoint(request: CreateWebhookEndpointRequest): Promise<WebhookEndpointRecord> {
+        const endpoint = {
+            name: request.name,
+            url: request.url,
+            events: request.events,
+            headers: request.headers,
+            authentication: request.authentication,
+            description: request.description,
+            enabled: true,
+            secret: `whsec_${randomBytes(24).toString('hex')}`
+        } as WebhookEndpointRecord;
+
+        const id = await webhookEndpointRepository.create(endpoint);
+        logger.info(`Webhook endpoint registered: ${id} (${request.url})`);
+
+        return {...endpoint, id};
+    }
+
+    async listEndpoints(): Promise<PublicWebhookEndpoint[]> {
+        const result = await webhookEndpointRepository.findMany({}, {limit: 100});
+        return result.data.map(endpoint => this.toPublicEndpoint(endpoint));
+    }
+
+    async deleteEndpoint(endpointId: string): Promise<boolean> {
+        if (!await webhookEndpointRepository.exists(endpointId)) {
+            return false;
+        }
+
+        await webhookEndpointRepository.delete(endpointId);
+        logger.info(`Webhook endpoint deleted: ${endpointId}`);
+        return true;
+    }
+
+    /**
+     * Send a logged delivery again as a new delivery (single attempt, awaited)
+     */
+    async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+        const original = await webhookDeliveryRepository.findById(deliveryId);
+        if (!original) {
+            return null;
+        }
+
+        const target = await this.resolveTarget(original.endpointId);
+        if (!target) {
+            throw new Error(`Webhook endpoint no longer exists: ${original.endpointId}`);
+        }
+
+        return this.deliver(target, original.payload, {retry: false, redeliveryOf: original.id});
+    }
+
+    private get settings(): AppWebhookConfig {
+        if (!this.config) {
+            this.config = getWebhookConfig();
+        }
+        return this.config;
+    }
+
+    private async dispatch(event: AppWebhookEvent, data: Record<string, any>): Promise<void> {
+        if (!this.settings.enabled) {
+            return;
+        }
+
+        const payload: WebhookEventPayload = {
+            id: `evt_${uuidv4()}`,
+            event,
+            createdAt: new Date().toISOString(),
+            data
+        };
+
+        const registered = await webhookEndpointRepository.findSubscribers(event);
+        const configured = this.settings.endpoints.filter(endpoint => endpoint.enabled && endpoint.events.includes(event));
+
+        const targets: WebhookTarget[] = [
+            ...registered.map(endpoint => this.toTarget(endpoint)),
+            ...configured.map(endpoint => this.toConfiguredTarget(endpoint))
+        ];
+
+        await Promise.all(targets.map(target => this.deliver(target, payload, {retry: true})));
+    }
+
+    /**
+     * Deliver a payload to a target, logging every attempt
+     */
+    private async deliver(
+        target: WebhookTarget,
+        payload: WebhookEventPayload,
+        options: { retry: boolean; redeliveryOf?: string }
+    ): Promise<WebhookDelivery> {
+        const now = new Date().toISOString();
+        const delivery = {
+            endpointId: target.id,
+            endpointUrl: target.url,
+            event: payload.event,
+            payload,
+            status: 'pending',
+            attempts: [],
+            ...(options.redeliveryOf && {redeliveryOf: options.redeliveryOf})
+        } as unknown as WebhookDelivery;
+
+        delivery.id = await webhookDeliveryRepository.create(delivery);
+
+        const {retryPolicy} = this.settings;
+        const policy = {
+            maxRetries: options.retry ? retryPolicy.maxRetries : 0,
+            initialDelayMs: retryPolicy.initialDelay,
+            backoffMultiplier: retryPolicy.backoffMultiplier,
+            maxDelayMs: retryPolicy.maxDelay
+        };
+
+        try {
+            await withRetry(() => this.attempt(target, delivery), policy, {
+                isRetryable: error => classifyError(error).retryable
+            });
+            delivery.status = 'succeeded';
+        } catch (error) {
+            delivery.status = 'failed';
+            logger.warn(`Webhook delivery failed: ${delivery.id} (${payload.event} -> ${target.url})`);
+        }
+
+        delivery.completedAt = new Date().toISOString();
+        await webhookDeliveryRepository.update(delivery.id, {
+            status: delivery.status,
+            completedAt: delivery.completedAt
+        }).catch(error => logger.error(`Failed to update webhook delivery: ${delivery.id}`, error));
+
+        return {...delivery, createdAt: delivery.createdAt || now, updatedAt: delivery.completedAt};
+    }
+
+    /**
+     * Make a single signed HTTP request and record the attempt
+     */
+    private async attempt(target: WebhookTarget, delivery: WebhookDelivery): Promise<void> {
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const startTime = Date.now();
+        const attempt: WebhookDeliveryAttempt = {attemptedAt: new Date().toISOString(), durationMs: 0};
+
+        try {
+            const response = await axios.post(target.url, body, {
+                headers: {
+                    ...target.headers,
+                    ...this.getAuthenticationHeaders(target),
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'ConversationParser-Webhooks/1.0',
+                    'X-Webhook-Event': delivery.event,
+                    'X-Webhook-Delivery': delivery.id,
+                    'X-Webhook-Timestamp': timestamp,
+                    ...this.getSignatureHeaders(target, timestamp, body)
+                },
+                timeout: WEBHOOK_REQUEST_TIMEOUT_MS
+            });
+            attempt.statusCode = response.status;
+        } catch (error) {
+            attempt.statusCode = (error as any)?.response?.status;
+            attempt.error = error instanceof Error ? error.message : 'Unknown error';
+            throw error;
+        } finally {
+            attempt.durationMs = Date.now() - startTime;
+            delivery.attempts.push(attempt);
+            await webhookDeliveryRepository.update(delivery.id, {attempts: delivery.attempts})
+                .catch(error => logger.error(`Failed to log webhook attempt: ${delivery.id}`, error));
+        }
+    }
+
+    /**
+     * Signature over "<timestamp>.<body>" so receivers can reject replays
+     */
+    private getSignatureHeaders(target: WebhookTarget, timestamp: string, body: string): Record<string, string> {
+        const {signRequests, algorithm} = this.settings.security;
+        if (!signRequests || !target.secret) {
+            return {};
+        }
+
+        const signature = createHmac(algorithm, target.secret).update(`${timestamp}.${body}`).digest('hex');
+        return {'X-Webhook-Signature': `${algorithm}=${signature}`};
+    }
+
+    private getAuthenticationHeaders(target: WebhookTarget): Record<string, string> {
+        const auth = target.authentication;
+        if (!auth) {
+            return {};
+        }
+
+        switch (auth.type) {
+            case 'bearer':
+                return {'Authorization': `Bearer ${auth.credentials.token}`};
+            case 'basic': {
+                const encoded = Buffer.from(`${auth.credentials.username}:${auth.credentials.password}`).toString('base64');
+                return {'Authorization': `Basic ${encoded}`};
+            }
+            case 'apikey':
+                return {[auth.credentials.headerName || 'X-API-Key']: auth.credentials.key};
+            default:
+                return {};
+        }
+    }
+
+    private async resolveTarget(endpointId: string): Promise<WebhookTarget | null> {
+        const configured = this.settings.endpoints.find(endpoint => this.configuredEndpointId(endpoint) === endpointId);
+        if (configured) {
+            return this.toConfiguredTarget(configured);
+        }
+
+        const registered = await webhookEndpointRepository.findById(endpointId);
+        return registered ? this.toTarget(registered) : null;
+    }
+
+    private toTarget(endpoint: WebhookEndpointRecord): WebhookTarget {
+        return {
+            id: endpoint.id,
+            url: endpoint.url,
+            headers: endpoint.headers,
+            authentication: endpoint.authentication,
+            secret: endpoint.secret
+        };
+    }
+
+    private toPublicEndpoint(endpoint: WebhookEndpointRecord): PublicWebhookEndpoint {
+        return {
+            id: endpoint.id,
+            name: endpoint.name,
+            url: endpoint.url,
+            events: endpoint.events,
+            headers: endpoint.headers,
+            description: endpoint.description,
+            enabled: endpoint.enabled,
+            createdAt: endpoint.createdAt,
+            updatedAt: endpoint.updatedAt
+        };
+    }
+
+    private toConfiguredTarget(endpoint: AppWebhookEndpoint): WebhookTarget {
+        return {
+            id: this.configuredEndpointId(endpoint),
+            url: endpoint.url,
+            headers: endpoint.headers,
+            authentication: endpoint.authentication,
+            secret: this.settings.security.secret
+        };
+    }
+
+    private configuredEndpointId(endpoint: AppWebhookEndpoint): string {
+        return `config:${endpoint.name}`;
+    }
+}
+
+export const webhookService = WebhookService.getInstance();
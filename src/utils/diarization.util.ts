@@ -0,0 +1,162 @@
+// src/utils/diarization.util.ts
+
+import {languageAt, LanguageSpan, majorityLanguage} from './language.util';
+import type {SpeakerSegment, SpeechRecognitionResult, WordInfo} from '../interfaces/audio.interface';
+
+/**
+ * Speaker segments from recognizer words. With diarization on, Google's last
+ * result repeats every word of the transcript with its final speaker tag;
+ * earlier results carry provisional or no tags, so only the last one is read.
+ */
+
+export interface DiarizationOptions {
+    smoothFlips?: boolean; // Default true; channel-attributed words are already exact
+    maxFlipWords?: number; // Longest run treated as a spurious flip
+    maxFlipGapSeconds?: number; // Pause that marks a real turn change around a short run
+    fallbackLanguage?: string;
+    languageSpans?: LanguageSpan[];
+}
+
+// A one- or two-word run inside another speaker's uninterrupted speech is
+// almost always a diarization error; a real interjection is set off by pauses
+const DEFAULT_MAX_FLIP_WORDS = 2;
+const DEFAULT_MAX_FLIP_GAP_SECONDS = 0.3;
+
+/**
+ * The authoritative word list: the last result with speaker tags, or every
+ * word in order when no result is tagged (diarization off)
+ */
+export function getAuthoritativeWords(results: SpeechRecognitionResult[]): WordInfo[] {
+    const diarized = [...(results || [])].reverse().find(result =>
+        result?.alternatives?.[0]?.words?.some(word => Number(word.speakerTag) > 0)
+    );
+
+    if (diarized) {
+        return diarized.alternatives[0].words || [];
+    }
+
+    return (results || []).flatMap(result => result?.alternatives?.[0]?.words || []);
+}
+
+/**
+ * Normalize recognizer words: blank words dropped, missing tags on speaker 1
+ */
+export function normalizeWords(words: WordInfo[]): WordInfo[] {
+    return words
+        .filter(word => word && typeof word.word === 'string' && word.word.trim())
+        .map(word => ({
+            word: word.word,
+            startTime: Number(word.startTime) || 0,
+            endTime: Number(word.endTime) || 0,
+            confidence: Number(word.confidence) || 0,
+            speakerTag: Number(word.speakerTag) > 0 ? Number(word.speakerTag) : 1,
+            ...(word.languageCode && {languageCode: String(word.languageCode)})
+        }));
+}
+
+/**
+ * Relabel short runs that interrupt one speaker without a pause on either
+ * side. Returns new word objects; the input is left untouched.
+ */
+export function smoothSpeakerFlips(
+    words: WordInfo[],
+    maxFlipWords = DEFAULT_MAX_FLIP_WORDS,
+    maxGapSeconds = DEFAULT_MAX_FLIP_GAP_SECONDS
+): WordInfo[] {
+    const smoothed = words.map(word => ({...word}));
+    const runs = getRuns(smoothed);
+
+    for (let index = 1; index < runs.length - 1; index++) {
+        const previous = runs[index - 1];
+        const run = runs[index];
+        const next = runs[index + 1];
+
+        if (run.length > maxFlipWords || previous.tag !== next.tag || run.length >= Math.min(previous.length, next.length)) {
+            continue;
+        }
+
+        const gapBefore = smoothed[run.start].startTime - smoothed[run.start - 1].endTime;
+        const gapAfter = smoothed[run.end + 1].startTime - smoothed[run.end].endTime;
+        if (gapBefore > maxGapSeconds || gapAfter > maxGapSeconds) {
+            continue;
+        }
+
+        for (let position = run.start; position <= run.end; position++) {
+            smoothed[position].speakerTag = previous.tag;
+        }
+
+        // The flip now belongs to its neighbours; later comparisons see one long run
+        next.start = previous.start;
+        next.length += previous.length + run.length;
+        run.tag = previous.tag;
+    }
+
+    return smoothed;
+}
+
+/**
+ * Group consecutive words of one speaker into segments with a true mean
+ * confidence, word count and majority language
+ */
+export function buildSpeakerSegments(words: WordInfo[], options: DiarizationOptions = {}): SpeakerSegment[] {
+    const fallbackLanguage = options.fallbackLanguage || 'en-US';
+    const spans = options.languageSpans || [];
+    const segments: SpeakerSegment[] = [];
+
+    for (const run of getRuns(words)) {
+        const runWords = words.slice(run.start, run.end + 1);
+
+        segments.push({
+            speakerTag: run.tag,
+            startTime: runWords[0].startTime,
+            endTime: Math.max(...runWords.map(word => word.endTime)),
+            confidence: runWords.reduce((sum, word) => sum + word.confidence, 0) / runWords.length,
+            wordCount: runWords.length,
+            transcript: runWords.map(word => word.word).join(' '),
+            words: runWords,
+            languageCode: majorityLanguage(
+                runWords.map(word => word.languageCode || languageAt(spans, word.startTime, fallbackLanguage)),
+                fallbackLanguage
+            )
+        });
+    }
+
+    return segments;
+}
+
+/**
+ * Authoritative words, smoothed and grouped into speaker segments
+ */
+export function extractSpeakerSegments(results: SpeechRecognitionResult[], options: DiarizationOptions = {}): SpeakerSegment[] {
+    const words = normalizeWords(getAuthoritativeWords(results));
+    const smoothed = options.smoothFlips === false
+        ? words
+        : smoothSpeakerFlips(words, options.maxFlipWords, options.maxFlipGapSeconds);
+
+    return buildSpeakerSegments(smoothed, options);
+}
+
+interface Run {
+    tag: number;
+    start: number; // Index of the first word
+    end: number; // Index of the last word
+    length: number;
+}
+
+function getRuns(words: WordInfo[]): Run[] {
+    const runs: Run[] = [];
+
+    words.forEach((word, index) => {
+        const tag = word.speakerTag || 1;
+        const current = runs[runs.length - 1];
+
+        if (current && current.tag === tag) {
+            current.end = index;
+            current.length++;
+        } else {
+            runs.push({tag, start: index, end: index, length: 1});
+        }
+    });
+
+    return runs;
+}
@@ -0,0 +1,122 @@
+// src/utils/language.util.ts
+
+import type {SpeechRecognitionResult} from '../interfaces/audio.interface';
+
+/**
+ * Helpers for multilingual transcripts. Google reports the detected language
+ * per result (lower-cased, e.g. "hy-am"); words and messages inherit the
+ * language of the result whose time range they fall in.
+ */
+
+export interface LanguageSpan {
+    start: number; // seconds
+    end: number; // seconds
+    languageCode: string;
+}
+
+// Google accepts at most three alternative language codes
+export const MAX_ALTERNATIVE_LANGUAGES = 3;
+
+/**
+ * Normalize a language tag to BCP-47 casing (es-us -> es-US, sr-latn -> sr-Latn)
+ */
+export function normalizeLanguageCode(code: string): string {
+    const [language, ...subtags] = code.trim().replace(/_/g, '-').split('-');
+
+    return [
+        language.toLowerCase(),
+        ...subtags.map(subtag => subtag.length === 4
+            ? subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+            : subtag.toUpperCase())
+    ].join('-');
+}
+
+/**
+ * Alternatives for language detection: unique, normalized, without the
+ * primary language and within Google's limit
+ */
+export function buildAlternativeLanguages(primary: string, candidates: string[]): string[] {
+    const normalizedPrimary = normalizeLanguageCode(primary);
+
+    return [...new Set(candidates.map(normalizeLanguageCode))]
+        .filter(code => code !== normalizedPrimary)
+        .slice(0, MAX_ALTERNATIVE_LANGUAGES);
+}
+
+/**
+ * Time ranges covered by each recognition result and the language detected in it.
+ * A trailing diarization result repeats every word and is skipped when
+ * other results exist.
+ */
+export function getLanguageSpans(results: SpeechRecognitionResult[], fallback: string): LanguageSpan[] {
+    const last = results[results.length - 1];
+    const transcribed = results.length > 1 && isDiarizationSummary(last) ? results.slice(0, -1) : results;
+    const spans: LanguageSpan[] = [];
+    let start = 0;
+
+    for (const result of transcribed) {
+        const end = result.resultEndTime ||
+            result.alternatives?.[0]?.words?.slice(-1)[0]?.endTime ||
+            start;
+
+        spans.push({
+            start,
+            end,
+            languageCode: result.languageCode ? normalizeLanguageCode(result.languageCode) : fallback
+        });
+        start = Math.max(start, end);
+    }
+
+    return spans;
+}
+
+/**
+ * Language spoken at a time (seconds)
+ */
+export function languageAt(spans: LanguageSpan[], time: number, fallback: string): string {
+    const span = spans.find(candidate => time < candidate.end) || spans[spans.length - 1];
+    return span?.languageCode || fallback;
+}
+
+/**
+ * Most frequent language among words; ties go to the earliest
+ */
+export function majorityLanguage(languageCodes: string[], fallback: string): string {
+    const counts = new Map<string, number>();
+    for (const code of languageCodes) {
+        counts.set(code, (counts.get(code) || 0) + 1);
+    }
+
+    let best = fallback;
+    let bestCount = 0;
+    counts.forEach((count, code) => {
+        if (count > bestCount) {
+            best = code;
+            bestCount = count;
+        }
+    });
+
+    return best;
+}
+
+/**
+ * Languages of a conversation ordered by speaking time, dominant first
+ */
+export function rankLanguagesByDuration(
+    messages: Array<{ language?: string; startTime: number; endTime: number }>,
+    fallback: string
+): string[] {
+    const durations = new Map<string, number>();
+
+    for (const message of messages) {
+        const language = message.language || fallback;
+        durations.set(language, (durations.get(language) || 0) + Math.max(0, message.endTime - message.startTime));
+    }
+
+    const ranked = [...durations.entries()].sort((a, b) => b[1] - a[1]).map(([language]) => language);
+    return ranked.length > 0 ? ranked : [fallback];
+}
+
+function isDiarizationSummary(result: SpeechRecognitionResult | undefined): boolean {
+    return Boolean(result?.alternatives?.[0]?.words?.some(word => Number(word.speakerTag) > 0));
+}
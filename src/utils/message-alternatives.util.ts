@@ -0,0 +1,130 @@
+// src/utils/message-alternatives.util.ts
+
+import {normalizeWords} from './diarization.util';
+import type {AlternativeEdit, SpeechRecognitionResult, WordInfo} from '../interfaces/audio.interface';
+import type {MessageAlternative} from '../interfaces/conversation.interface';
+
+/**
+ * Message alternatives. The recognizer returns alternatives per result, and a
+ * result rarely lines up with a message, so each alternative is reduced to the
+ * words where it differs from the top transcript and applied to the message
+ * holding those words.
+ */
+
+// Google accepts up to 30; more than a handful is noise in an editor
+export const MAX_RECOGNITION_ALTERNATIVES = 10;
+export const DEFAULT_RECOGNITION_ALTERNATIVES = 3;
+
+// Word times of one recognition repeated in the diarized word list
+const TIME_TOLERANCE_SECONDS = 0.05;
+
+/**
+ * Edits for every lower-ranked alternative of every result. The top
+ * alternative needs word offsets to be placed; results without them are
+ * skipped. offsetSeconds shifts window-relative times (chunked audio).
+ */
+export function getAlternativeEdits(results: SpeechRecognitionResult[], offsetSeconds = 0): AlternativeEdit[] {
+    const edits: AlternativeEdit[] = [];
+
+    for (const result of results || []) {
+        const alternatives = result?.alternatives || [];
+        const top = normalizeWords(alternatives[0]?.words || []);
+        if (alternatives.length < 2 || top.length === 0) {
+            continue;
+        }
+
+        alternatives.slice(1).forEach((alternative, index) => {
+            const words = String(alternative?.transcript || '').split(/\s+/).filter(Boolean);
+            const edit = diffWords(top, words);
+            if (!edit) {
+                return;
+            }
+
+            edits.push({
+                from: top[edit.start].startTime + offsetSeconds,
+                to: top[edit.end].startTime + offsetSeconds,
+                words: edit.words,
+                confidence: Number(alternative.confidence) || 0,
+                rank: index + 1,
+                ...(result.channelTag && {channelTag: Number(result.channelTag)})
+            });
+        });
+    }
+
+    return edits;
+}
+
+/**
+ * Alternative contents for a message's words, best first: by confidence,
+ * then by rank. Edits that touch words outside the message are ignored.
+ */
+export function applyAlternativeEdits(words: WordInfo[], edits: AlternativeEdit[], limit: number): MessageAlternative[] {
+    const original = words.map(word => word.word).join(' ');
+    const seen = new Set([original]);
+    const variants: Array<MessageAlternative & { rank: number }> = [];
+
+    for (const edit of edits) {
+        const start = indexAt(words, edit.from);
+        const end = indexAt(words, edit.to);
+        if (start < 0 || end < start) {
+            continue;
+        }
+
+        const variant = [
+            ...words.slice(0, start).map(word => word.word),
+            ...edit.words,
+            ...words.slice(end + 1).map(word => word.word)
+        ].join(' ');
+
+        if (variant && !seen.has(variant)) {
+            seen.add(variant);
+            variants.push({content: variant, confidence: Math.round(edit.confidence * 100) / 100, rank: edit.rank});
+        }
+    }
+
+    return variants
+        .sort((a, b) => b.confidence - a.confidence || a.rank - b.rank)
+        .slice(0, limit)
+        .map(({content, confidence}) => ({content, confidence}));
+}
+
+/**
+ * The smallest range of top words to replace, from the common prefix and
+ * suffix. A pure insertion takes a neighbouring word along so the range is
+ * never empty.
+ */
+function diffWords(top: WordInfo[], alternative: string[]): { start: number; end: number; words: string[] } | null {
+    let prefix = 0;
+    while (prefix < top.length && prefix < alternative.length && top[prefix].word === alternative[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < top.length - prefix &&
+        suffix < alternative.length - prefix &&
+        top[top.length - 1 - suffix].word === alternative[alternative.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const start = prefix;
+    const end = top.length - 1 - suffix;
+    const words = alternative.slice(prefix, alternative.length - suffix);
+
+    if (end >= start) {
+        return {start, end, words};
+    }
+    if (words.length === 0) {
+        return null; // Same words
+    }
+
+    // Insertion: keep the previous word, or the next one at the very start
+    return prefix > 0
+        ? {start: prefix - 1, end: prefix - 1, words: [top[prefix - 1].word, ...words]}
+        : {start: 0, end: 0, words: [...words, top[0].word]};
+}
+
+function indexAt(words: WordInfo[], time: number): number {
+    return words.findIndex(word => Math.abs(word.startTime - time) <= TIME_TOLERANCE_SECONDS);
+}
@@ -0,0 +1,173 @@
+// src/utils/message-segmentation.util.ts
+
+import {buildSpeakerSegments} from './diarization.util';
+import type {SegmentationConfig} from '../config/processing.config';
+import type {SpeakerSegment, WordInfo} from '../interfaces/audio.interface';
+
+/**
+ * Message segmentation: each speaker run is cut into sentences (punctuation)
+ * and pause-delimited units, then packed back into messages up to the length
+ * limits. Messages never span two speakers.
+ */
+
+// Sentence-final punctuation, including CJK, Arabic and ellipses
+const SENTENCE_END = /[.?!…。？！؟։]["'”’)\]]*$/;
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+    'mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'vs.', 'etc.',
+    'e.g.', 'i.e.', 'a.m.', 'p.m.', 'no.', 'approx.', 'dept.', 'inc.', 'ltd.'
+]);
+
+export interface SegmentationResult {
+    segments: SpeakerSegment[];
+    dropped: number; // Messages below the confidence threshold
+}
+
+interface Unit {
+    words: WordInfo[];
+    afterPause: boolean; // Preceded by a pause longer than maxPauseSeconds
+}
+
+/**
+ * Split speaker segments into message-sized segments. Segments without words
+ * (no word offsets) are kept whole.
+ */
+export function segmentMessages(segments: SpeakerSegment[], config: SegmentationConfig): SegmentationResult {
+    const messages: SpeakerSegment[] = [];
+    let dropped = 0;
+
+    for (const segment of segments) {
+        const pieces = segment.words?.length
+            ? splitSegment(segment, config)
+            : [segment];
+
+        for (const piece of pieces) {
+            if (piece.confidence < config.confidenceThreshold) {
+                dropped++;
+            } else {
+                messages.push(piece);
+            }
+        }
+    }
+
+    return {segments: messages, dropped};
+}
+
+/**
+ * Whether a word ends a sentence
+ */
+export function endsSentence(word: string): boolean {
+    return SENTENCE_END.test(word) && !ABBREVIATIONS.has(word.toLowerCase());
+}
+
+function splitSegment(segment: SpeakerSegment, config: SegmentationConfig): SpeakerSegment[] {
+    const units = getUnits(segment.words!, config)
+        .flatMap(unit => limitUnit(unit, config));
+
+    const pieces = mergeFragments(packUnits(units, config), config.minimumMessageLength);
+
+    return pieces.map(words => buildSpeakerSegments(
+        words.map(word => ({...word, speakerTag: segment.speakerTag})),
+        {fallbackLanguage: segment.languageCode}
+    )[0]);
+}
+
+/**
+ * Sentences, also cut at pauses longer than maxPauseSeconds
+ */
+function getUnits(words: WordInfo[], config: SegmentationConfig): Unit[] {
+    const units: Unit[] = [];
+    let current: Unit = {words: [], afterPause: false};
+
+    for (const word of words) {
+        const previous = current.words[current.words.length - 1];
+        if (previous && word.startTime - previous.endTime > config.maxPauseSeconds) {
+            units.push(current);
+            current = {words: [], afterPause: true};
+        }
+
+        current.words.push(word);
+
+        if (endsSentence(word.word)) {
+            units.push(current);
+            current = {words: [], afterPause: false};
+        }
+    }
+
+    if (current.words.length) {
+        units.push(current);
+    }
+
+    return units;
+}
+
+/**
+ * Cut a run-on unit (no punctuation, no pauses) at the length limits
+ */
+function limitUnit(unit: Unit, config: SegmentationConfig): Unit[] {
+    if (fits(unit.words, config)) {
+        return [unit];
+    }
+
+    const chunks: Unit[] = [{words: [], afterPause: unit.afterPause}];
+
+    for (const word of unit.words) {
+        const chunk = chunks[chunks.length - 1];
+        if (chunk.words.length && !fits([...chunk.words, word], config)) {
+            chunks.push({words: [word], afterPause: false});
+        } else {
+            chunk.words.push(word);
+        }
+    }
+
+    return chunks;
+}
+
+/**
+ * Group consecutive units up to the limits; a pause always starts a new message.
+ * Without groupSimilarMessages every unit is its own message.
+ */
+function packUnits(units: Unit[], config: SegmentationConfig): WordInfo[][] {
+    const pieces: WordInfo[][] = [];
+
+    for (const unit of units) {
+        const current = pieces[pieces.length - 1];
+        if (current && config.groupSimilarMessages && !unit.afterPause && fits([...current, ...unit.words], config)) {
+            current.push(...unit.words);
+        } else {
+            pieces.push([...unit.words]);
+        }
+    }
+
+    return pieces;
+}
+
+/**
+ * Fold pieces shorter than minimumWords into the previous piece (the next one
+ * for a leading fragment). A turn that is short on its own stays as it is.
+ */
+function mergeFragments(pieces: WordInfo[][], minimumWords: number): WordInfo[][] {
+    const merged: WordInfo[][] = [];
+
+    for (const piece of pieces) {
+        const previous = merged[merged.length - 1];
+        const previousShort = previous && previous.length < minimumWords;
+
+        if (previous && (piece.length < minimumWords || previousShort)) {
+            previous.push(...piece);
+        } else {
+            merged.push([...piece]);
+        }
+    }
+
+    return merged;
+}
+
+function fits(words: WordInfo[], config: SegmentationConfig): boolean {
+    if (words.length > config.maxMessageWords) {
+        return false;
+    }
+
+    return words.length < 2 || words[words.length - 1].endTime - words[0].startTime <= config.maxMessageSeconds;
+}
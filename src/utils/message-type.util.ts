@@ -0,0 +1,167 @@
+// src/utils/message-type.util.ts
+
+import {endsSentence} from './message-segmentation.util';
+import {
+    DEFAULT_MESSAGE_TYPE_THRESHOLDS,
+    getMessageTypeRules,
+    MessageTypeRules,
+    MessageTypeThresholds
+} from '../config/message-types.config';
+import type {Message, MessageType} from '../interfaces/conversation.interface';
+
+/**
+ * Rule-based message type classification. Wording rules come from the
+ * message's language; interruptions are decided by timing against the
+ * previous speaker, so a polite "sorry" is not an interruption and a
+ * "mm-hmm" spoken over someone is feedback rather than a turn.
+ */
+
+export type ClassifiableMessage = Pick<Message, 'speakerId' | 'content' | 'startTime' | 'endTime' | 'language'> &
+    Partial<Pick<Message, 'messageType'>>;
+
+export interface MessageTypeOptions {
+    detectQuestions?: boolean; // Default true
+    detectInterruptions?: boolean; // Default true
+    thresholds?: MessageTypeThresholds;
+    rules?: Record<string, MessageTypeRules>; // Rule set to use instead of reading the configuration per message
+}
+
+export interface MessageClassification {
+    messageType: MessageType;
+    confidence: number; // 0-1
+    indicators: string[]; // Rules that matched, e.g. "question_mark" or "overlap:0.8s"
+}
+
+const QUESTION_END = /[?？؟]["'”’)\]]*$/;
+const INVERTED_QUESTION_START = /^\s*¿/;
+const ARMENIAN_QUESTION_MARK = /՞/; // Written on the stressed word, not at the end
+const EXCLAMATION_OR_PERIOD_END = /[.!。！։]["'”’)\]]*$/;
+
+/**
+ * Classify a message given the messages before it (in order). The previous
+ * message from another speaker decides interruptions and answers.
+ */
+export function classifyMessage(
+    message: ClassifiableMessage,
+    history: ClassifiableMessage[],
+    options: MessageTypeOptions = {}
+): MessageClassification {
+    const text = normalizeText(message.content);
+    if (!text) {
+        return {messageType: 'unknown', confidence: 0, indicators: []};
+    }
+
+    const rules = getMessageTypeRules(message.language, options.rules);
+    const thresholds = options.thresholds || DEFAULT_MESSAGE_TYPE_THRESHOLDS;
+    const previous = findPreviousSpeaker(history, message.speakerId);
+    const backchannel = isBackchannel(text, rules, thresholds);
+    const indicators: string[] = [];
+
+    if (options.detectInterruptions !== false && previous) {
+        const overlap = previous.endTime - message.startTime;
+        const phrase = rules.interruptionStarts.find(candidate => startsWithPhrase(text, candidate));
+
+        if (overlap >= thresholds.minOverlapSeconds) {
+            indicators.push(`overlap:${overlap.toFixed(1)}s`);
+
+            if (!backchannel) {
+                return {
+                    messageType: 'interruption',
+                    confidence: phrase ? 0.9 : 0.75,
+                    indicators: phrase ? [...indicators, `interruption_phrase:${phrase}`] : indicators
+                };
+            }
+        } else if (phrase && message.startTime - previous.endTime <= thresholds.maxLatchGapSeconds &&
+            !endsSentence(lastWord(previous.content))) {
+            // Diarized audio has no overlaps; cutting in on an unfinished sentence is the tell
+            return {
+                messageType: 'interruption',
+                confidence: 0.65,
+                indicators: ['previous_unfinished', `interruption_phrase:${phrase}`]
+            };
+        }
+    }
+
+    if (options.detectQuestions !== false) {
+        const questionWord = rules.questionStarts.find(candidate => startsWithPhrase(text, candidate));
+
+        const questionMark = QUESTION_END.test(text) || ARMENIAN_QUESTION_MARK.test(message.content);
+
+        if (questionMark || INVERTED_QUESTION_START.test(message.content)) {
+            indicators.push(questionMark ? 'question_mark' : 'inverted_question_mark');
+            if (questionWord) {
+                indicators.push(`question_word:${questionWord}`);
+            }
+            return {messageType: 'question', confidence: questionWord ? 0.95 : 0.9, indicators};
+        }
+
+        if (questionWord && !EXCLAMATION_OR_PERIOD_END.test(text)) {
+            return {messageType: 'question', confidence: 0.6, indicators: [...indicators, `question_word:${questionWord}`]};
+        }
+    }
+
+    const answersQuestion = previous?.messageType === 'question';
+    const responseWord = rules.responseStarts.find(candidate => startsWithPhrase(text, candidate));
+    const responsePhrase = rules.responsePhrases.find(candidate => containsPhrase(text, candidate));
+
+    if (backchannel) {
+        indicators.push('backchannel');
+        return {messageType: 'response', confidence: 0.8, indicators};
+    }
+
+    if (responseWord || responsePhrase || answersQuestion) {
+        if (responseWord) indicators.push(`response_word:${responseWord}`);
+        if (responsePhrase) indicators.push(`response_phrase:${responsePhrase}`);
+        if (answersQuestion) indicators.push('answers_question');
+
+        // A response cue right after another speaker's question is the strongest signal
+        const confidence = responseWord ? 0.7 : responsePhrase ? 0.6 : 0.55;
+        return {
+            messageType: 'response',
+            confidence: answersQuestion && (responseWord || responsePhrase) ? confidence + 0.15 : confidence,
+            indicators
+        };
+    }
+
+    if (EXCLAMATION_OR_PERIOD_END.test(text)) {
+        indicators.push('sentence_end');
+    }
+
+    return {messageType: 'statement', confidence: indicators.includes('sentence_end') ? 0.7 : 0.5, indicators};
+}
+
+function findPreviousSpeaker(history: ClassifiableMessage[], speakerId: string): ClassifiableMessage | undefined {
+    for (let index = history.length - 1; index >= 0; index--) {
+        if (history[index].speakerId !== speakerId) {
+            return history[index];
+        }
+    }
+    return undefined;
+}
+
+function isBackchannel(text: string, rules: MessageTypeRules, thresholds: MessageTypeThresholds): boolean {
+    const bare = stripPunctuation(text);
+    return bare.split(' ').length <= thresholds.maxBackchannelWords && rules.backchannels.includes(bare);
+}
+
+function startsWithPhrase(text: string, phrase: string): boolean {
+    const candidate = phrase.toLowerCase();
+    return text.startsWith(candidate) &&
+        (text.length === candidate.length || /[\s,.!?;:…？！。、։]/.test(text.charAt(candidate.length)));
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+    return ` ${stripPunctuation(text)} `.includes(` ${phrase.toLowerCase()} `);
+}
+
+function normalizeText(content: string): string {
+    return String(content || '').trim().toLowerCase().replace(/^[¿¡"'“‘([\s]+/, '').replace(/՞/g, '');
+}
+
+function stripPunctuation(text: string): string {
+    return text.replace(/[^\p{L}\p{N}'\s-]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function lastWord(content: string): string {
+    return String(content || '').trim().split(/\s+/).pop() || '';
+}
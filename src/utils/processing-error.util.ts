@@ -0,0 +1,154 @@
+// src/utils/processing-error.util.ts
+
+import type {ProcessingError, ProcessingStage} from '../interfaces/conversation.interface';
+
+/**
+ * Error raised by processing stages. Carries the classification of the
+ * underlying failure so the pipeline can decide whether to retry.
+ */
+export class ProcessingFailure extends Error {
+    readonly code: string;
+    readonly retryable: boolean;
+    readonly details?: Record<string, any>;
+
+    constructor(message: string, code: string, retryable: boolean, details?: Record<string, any>) {
+        super(message);
+        this.name = 'ProcessingFailure';
+        this.code = code;
+        this.retryable = retryable;
+        this.details = details;
+    }
+}
+
+export const PROCESSING_CANCELLED = 'PROCESSING_CANCELLED';
+
+/**
+ * Error raised when a user cancels processing
+ */
+export function createCancellationError(): ProcessingFailure {
+    return new ProcessingFailure('Processing cancelled by user', PROCESSING_CANCELLED, false);
+}
+
+export function isCancellationError(error: unknown): boolean {
+    return error instanceof ProcessingFailure && error.code === PROCESSING_CANCELLED;
+}
+
+export const ALREADY_PROCESSING = 'ALREADY_PROCESSING';
+
+/**
+ * Error raised when another request started processing the recording first
+ */
+export function createAlreadyProcessingError(recordingId: string): ProcessingFailure {
+    return new ProcessingFailure('Recording is already being processed', ALREADY_PROCESSING, false, {recordingId});
+}
+
+export function isAlreadyProcessingError(error: unknown): boolean {
+    return error instanceof ProcessingFailure && error.code === ALREADY_PROCESSING;
+}
+
+export const PROCESSING_INTERRUPTED = 'PROCESSING_INTERRUPTED';
+
+/**
+ * Abort reason for runs stopped by an instance shutdown. The recording stays
+ * 'processing' so the sweeper requeues it once its heartbeat expires.
+ */
+export function createInterruptionError(): ProcessingFailure {
+    return new ProcessingFailure('Processing interrupted by shutdown', PROCESSING_INTERRUPTED, true);
+}
+
+export function isInterruptionError(error: unknown): boolean {
+    return error instanceof ProcessingFailure && error.code === PROCESSING_INTERRUPTED;
+}
+
+/**
+ * Error raised for audio longer than the configured maximum duration
+ */
+export function createAudioTooLongError(durationSeconds: number, maxDurationSeconds: number): ProcessingFailure {
+    return new ProcessingFailure(
+        `Audio duration ${Math.round(durationSeconds)}s exceeds the maximum of ${maxDurationSeconds}s`,
+        'AUDIO_TOO_LONG',
+        false,
+        {duration: durationSeconds, maxDuration: maxDurationSeconds}
+    );
+}
+
+// gRPC status codes returned by Google Cloud client libraries
+const RETRYABLE_GRPC_CODES: Record<number, string> = {
+    4: 'DEADLINE_EXCEEDED',
+    8: 'RESOURCE_EXHAUSTED',
+    10: 'ABORTED',
+    13: 'INTERNAL',
+    14: 'UNAVAILABLE'
+};
+
+const PERMANENT_GRPC_CODES: Record<number, string> = {
+    3: 'INVALID_ARGUMENT',
+    5: 'NOT_FOUND',
+    7: 'PERMISSION_DENIED',
+    9: 'FAILED_PRECONDITION',
+    11: 'OUT_OF_RANGE',
+    12: 'UNIMPLEMENTED',
+    16: 'UNAUTHENTICATED'
+};
+
+// Node.js / axios network error codes
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Classify an error from Google, Twilio (axios) or the network layer
+ */
+export function classifyError(error: unknown): { code: string; retryable: boolean; details?: Record<string, any> } {
+    if (error instanceof ProcessingFailure) {
+        return {code: error.code, retryable: error.retryable, details: error.details};
+    }
+
+    const err = error as any;
+
+    // Google gRPC errors expose a numeric status code
+    if (typeof err?.code === 'number') {
+        if (RETRYABLE_GRPC_CODES[err.code]) {
+            return {code: `GOOGLE_${RETRYABLE_GRPC_CODES[err.code]}`, retryable: true, details: {grpcCode: err.code}};
+        }
+        if (PERMANENT_GRPC_CODES[err.code]) {
+            return {code: `GOOGLE_${PERMANENT_GRPC_CODES[err.code]}`, retryable: false, details: {grpcCode: err.code}};
+        }
+    }
+
+    // HTTP errors (axios)
+    const httpStatus = err?.response?.status;
+    if (typeof httpStatus === 'number') {
+        const retryable = httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+        return {code: `HTTP_${httpStatus}`, retryable, details: {httpStatus}};
+    }
+
+    if (typeof err?.code === 'string' && RETRYABLE_NETWORK_CODES.includes(err.code)) {
+        return {code: 'NETWORK_ERROR', retryable: true, details: {networkCode: err.code}};
+    }
+
+    return {code: 'PROCESSING_ERROR', retryable: false};
+}
+
+/**
+ * Wrap an error with a stage-specific message while keeping its classification
+ */
+export function toProcessingFailure(message: string, error: unknown): ProcessingFailure {
+    const {code, retryable, details} = classifyError(error);
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    return new ProcessingFailure(`${message}: ${reason}`, code, retryable, details);
+}
+
+/**
+ * Build the client-facing error for a failed processing run
+ */
+export function toProcessingError(error: unknown, stage: ProcessingStage, costIncurred?: number): ProcessingError {
+    const {code, retryable, details} = classifyError(error);
+
+    return {
+        code,
+        message: error instanceof Error ? error.message : String(error),
+        stage,
+        retryable,
+        ...(details && {details}),
+        ...(costIncurred !== undefined && {costIncurred})
+    };
+}
@@ -0,0 +1,353 @@
+// src/utils/processing-options.util.ts
+
+import {COST_OPTIMIZATION_TIERS} from '../config/cost-optimization.config';
+import {MAX_ALTERNATIVE_LANGUAGES} from './language.util';
+import {MAX_RECOGNITION_ALTERNATIVES} from './message-alternatives.util';
+import type {ProcessingJobOptions} from '../interfaces/processing.interface';
+import type {RecordingProcessingConfig, UploadConversationRequest} from '../interfaces/conversation.interface';
+
+/**
+ * Validation for processing options sent by the app. Multipart uploads send
+ * every field as a string, so numbers, booleans and JSON objects are accepted
+ * in their string form too.
+ */
+
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[A-Za-z0-9]{2,4})*$/;
+const SPEECH_MODELS = ['default', 'phone_call', 'video', 'command_and_search', 'latest_long'];
+const PRIORITIES = ['speed', 'accuracy', 'cost'];
+const MAX_SPEECH_CONTEXT_PHRASES = 500;
+
+export interface UploadOptions {
+    language?: string;
+    config?: RecordingProcessingConfig;
+    costOptimization?: UploadConversationRequest['costOptimization'];
+}
+
+export function isLanguageTag(value: unknown): value is string {
+    return typeof value === 'string' && LANGUAGE_TAG.test(value);
+}
+
+/**
+ * Validate job options for processing and reprocessing requests
+ */
+export function parseProcessingOptions(body: Record<string, any>): { options: ProcessingJobOptions; errors: string[] } {
+    const options: ProcessingJobOptions = {};
+    const errors: string[] = [];
+    const tier = body.tier ?? body.costOptimization?.tier;
+
+    if (tier !== undefined) {
+        if (!Object.keys(COST_OPTIMIZATION_TIERS).includes(tier)) {
+            errors.push(`tier must be one of ${Object.keys(COST_OPTIMIZATION_TIERS).join(', ')}`);
+        } else {
+            options.tier = tier;
+        }
+    }
+
+    if (body.priorityCost !== undefined) {
+        if (!PRIORITIES.includes(body.priorityCost)) {
+            errors.push('priorityCost must be one of speed, accuracy, cost');
+        } else {
+            options.priorityCost = body.priorityCost;
+        }
+    }
+
+    if (body.languageCode !== undefined) {
+        if (!isLanguageTag(body.languageCode)) {
+            errors.push('languageCode must be a BCP-47 language tag such as en-US');
+        } else {
+            options.languageCode = body.languageCode;
+        }
+    }
+
+    const detectLanguage = parseBoolean(body.detectLanguage, 'detectLanguage', errors);
+    if (detectLanguage !== undefined) {
+        options.detectLanguage = detectLanguage;
+    }
+
+    if (body.alternativeLanguageCodes !== undefined) {
+        if (!isLanguageTagList(body.alternativeLanguageCodes)) {
+            errors.push(`alternativeLanguageCodes must be up to ${MAX_ALTERNATIVE_LANGUAGES} BCP-47 language tags`);
+        } else {
+            options.alternativeLanguageCodes = body.alternativeLanguageCodes;
+        }
+    }
+
+    const wordTimings = parseBoolean(body.wordTimings, 'wordTimings', errors);
+    if (wordTimings !== undefined) {
+        options.wordTimings = wordTimings;
+    }
+
+    if (body.maxAlternatives !== undefined) {
+        const value = Number(body.maxAlternatives);
+        if (!Number.isInteger(value) || value < 1 || value > MAX_RECOGNITION_ALTERNATIVES) {
+            errors.push(`maxAlternatives must be an integer between 1 and ${MAX_RECOGNITION_ALTERNATIVES}`);
+        } else {
+            options.maxAlternatives = value;
+        }
+    }
+
+    for (const field of ['minSpeakers', 'maxSpeakers'] as const) {
+        if (body[field] !== undefined) {
+            const value = Number(body[field]);
+            if (!Number.isInteger(value) || value < 1 || value > 10) {
+                errors.push(`${field} must be an integer between 1 and 10`);
+            } else {
+                options[field] = value;
+            }
+        }
+    }
+
+    if (options.minSpeakers && options.maxSpeakers && options.minSpeakers > options.maxSpeakers) {
+        errors.push('minSpeakers cannot be greater than maxSpeakers');
+    }
+
+    const maxBudget = body.maxBudget ?? body.costOptimization?.maxBudget;
+    if (maxBudget !== undefined) {
+        const value = Number(maxBudget);
+        if (!Number.isFinite(value) || value < 0) {
+            errors.push('maxBudget must be a non-negative number (USD)');
+        } else {
+            options.maxBudget = value;
+        }
+    }
+
+    const onBudgetExceeded = body.onBudgetExceeded ?? body.costOptimization?.onBudgetExceeded;
+    if (onBudgetExceeded !== undefined) {
+        if (!['reject', 'downgrade'].includes(onBudgetExceeded)) {
+            errors.push('onBudgetExceeded must be one of reject, downgrade');
+        } else {
+            options.onBudgetExceeded = onBudgetExceeded;
+        }
+    }
+
+    return {options, errors};
+}
+
+/**
+ * Validate the language, config and costOptimization fields of an upload
+ */
+export function parseUploadOptions(body: Record<string, any>): { options: UploadOptions; errors: string[] } {
+    const options: UploadOptions = {};
+    const errors: string[] = [];
+
+    if (body.language !== undefined && body.language !== '') {
+        if (!isLanguageTag(body.language)) {
+            errors.push('language must be a BCP-47 language tag such as en-US');
+        } else {
+            options.language = body.language;
+        }
+    }
+
+    const config = parseJsonObject(body.config, 'config', errors);
+    if (config) {
+        options.config = parseProcessingConfig(config, errors);
+    }
+
+    const costOptimization = parseJsonObject(body.costOptimization, 'costOptimization', errors);
+    if (costOptimization) {
+        const {options: parsed, errors: costErrors} = parseProcessingOptions({
+            tier: costOptimization.tier,
+            priorityCost: costOptimization.priorityCost,
+            maxBudget: costOptimization.maxBudget
+        });
+
+        errors.push(...costErrors.map(error => `costOptimization.${error}`));
+        options.costOptimization = {
+            ...(parsed.tier && {tier: parsed.tier}),
+            ...(parsed.priorityCost && {priorityCost: parsed.priorityCost}),
+            ...(parsed.maxBudget !== undefined && {maxBudget: parsed.maxBudget})
+        };
+    }
+
+    // The config's language counts as the recording language when no top-level one is given
+    options.language = options.language || options.config?.speechToText?.language;
+
+    return {options, errors};
+}
+
+function parseProcessingConfig(raw: Record<string, any>, errors: string[]): RecordingProcessingConfig {
+    const config: RecordingProcessingConfig = {};
+
+    if (raw.speechToText) {
+        const speech = raw.speechToText;
+        const speechToText: NonNullable<RecordingProcessingConfig['speechToText']> = {};
+
+        if (speech.language !== undefined) {
+            if (!isLanguageTag(speech.language)) {
+                errors.push('config.speechToText.language must be a BCP-47 language tag');
+            } else {
+                speechToText.language = speech.language;
+            }
+        }
+
+        if (speech.alternativeLanguages !== undefined) {
+            if (!isLanguageTagList(speech.alternativeLanguages)) {
+                errors.push(`config.speechToText.alternativeLanguages must be up to ${MAX_ALTERNATIVE_LANGUAGES} BCP-47 language tags`);
+            } else {
+                speechToText.alternativeLanguages = speech.alternativeLanguages;
+            }
+        }
+
+        if (speech.speechContexts !== undefined) {
+            if (!Array.isArray(speech.speechContexts) ||
+                speech.speechContexts.length > MAX_SPEECH_CONTEXT_PHRASES ||
+                !speech.speechContexts.every((phrase: unknown) => typeof phrase === 'string' && phrase.trim())) {
+                errors.push(`config.speechToText.speechContexts must be up to ${MAX_SPEECH_CONTEXT_PHRASES} non-empty phrases`);
+            } else {
+                speechToText.speechContexts = speech.speechContexts.map((phrase: string) => phrase.trim());
+            }
+        }
+
+        if (speech.model !== undefined) {
+            if (!SPEECH_MODELS.includes(speech.model)) {
+                errors.push(`config.speechToText.model must be one of ${SPEECH_MODELS.join(', ')}`);
+            } else {
+                speechToText.model = speech.model;
+            }
+        }
+
+        for (const field of ['detectLanguage', 'enableAutomaticPunctuation', 'enableWordTimeOffsets', 'profanityFilter'] as const) {
+            const value = parseBoolean(speech[field], `config.speechToText.${field}`, errors);
+            if (value !== undefined) speechToText[field] = value;
+        }
+
+        config.speechToText = speechToText;
+    }
+
+    if (raw.diarization) {
+        const {options: speakers, errors: speakerErrors} = parseProcessingOptions({
+            minSpeakers: raw.diarization.minSpeakers,
+            maxSpeakers: raw.diarization.maxSpeakers
+        });
+        errors.push(...speakerErrors.map(error => `config.diarization.${error}`));
+
+        const enableSpeakerDiarization = parseBoolean(
+            raw.diarization.enableSpeakerDiarization,
+            'config.diarization.enableSpeakerDiarization',
+            errors
+        );
+
+        config.diarization = {
+            ...(enableSpeakerDiarization !== undefined && {enableSpeakerDiarization}),
+            ...(speakers.minSpeakers && {minSpeakers: speakers.minSpeakers}),
+            ...(speakers.maxSpeakers && {maxSpeakers: speakers.maxSpeakers})
+        };
+    }
+
+    if (raw.parsing) {
+        const parsing: NonNullable<RecordingProcessingConfig['parsing']> = {};
+
+        for (const field of ['detectQuestions', 'detectInterruptions', 'groupSimilarMessages', 'enableInsights', 'enableSentimentAnalysis'] as const) {
+            const value = parseBoolean(raw.parsing[field], `config.parsing.${field}`, errors);
+            if (value !== undefined) parsing[field] = value;
+        }
+
+        if (raw.parsing.minimumMessageLength !== undefined) {
+            const value = Number(raw.parsing.minimumMessageLength);
+            if (!Number.isInteger(value) || value < 0) {
+                errors.push('config.parsing.minimumMessageLength must be a non-negative integer (words)');
+            } else {
+                parsing.minimumMessageLength = value;
+            }
+        }
+
+        if (raw.parsing.maxPauseSeconds !== undefined) {
+            const value = Number(raw.parsing.maxPauseSeconds);
+            if (!Number.isFinite(value) || value <= 0) {
+                errors.push('config.parsing.maxPauseSeconds must be a positive number (seconds)');
+            } else {
+                parsing.maxPauseSeconds = value;
+            }
+        }
+
+        if (raw.parsing.maxMessageWords !== undefined) {
+            const value = Number(raw.parsing.maxMessageWords);
+            if (!Number.isInteger(value) || value < 1) {
+                errors.push('config.parsing.maxMessageWords must be a positive integer (words)');
+            } else {
+                parsing.maxMessageWords = value;
+            }
+        }
+
+        if (raw.parsing.confidenceThreshold !== undefined) {
+            const value = Number(raw.parsing.confidenceThreshold);
+            if (!Number.isFinite(value) || value < 0 || value > 1) {
+                errors.push('config.parsing.confidenceThreshold must be between 0 and 1');
+            } else {
+                parsing.confidenceThreshold = value;
+            }
+        }
+
+        config.parsing = parsing;
+    }
+
+    if (raw.output) {
+        const output: NonNullable<RecordingProcessingConfig['output']> = {};
+
+        for (const field of ['includeTimestamps', 'includeConfidenceScores', 'includeAlternatives', 'includeWordTimings', 'includeInsights', 'includeProcessingLog', 'includeCostInfo'] as const) {
+            const value = parseBoolean(raw.output[field], `config.output.${field}`, errors);
+            if (value !== undefined) output[field] = value;
+        }
+
+        if (raw.output.maxAlternatives !== undefined) {
+            const value = Number(raw.output.maxAlternatives);
+            if (!Number.isInteger(value) || value < 2 || value > MAX_RECOGNITION_ALTERNATIVES) {
+                errors.push(`config.output.maxAlternatives must be an integer between 2 and ${MAX_RECOGNITION_ALTERNATIVES}`);
+            } else {
+                output.maxAlternatives = value;
+            }
+        }
+
+        if (raw.output.format !== undefined) {
+            if (!['standard', 'detailed', 'minimal'].includes(raw.output.format)) {
+                errors.push('config.output.format must be one of standard, detailed, minimal');
+            } else {
+                output.format = raw.output.format;
+            }
+        }
+
+        config.output = output;
+    }
+
+    if (raw.costOptimization) {
+        errors.push('config.costOptimization is not supported; send costOptimization at the top level');
+    }
+
+    return config;
+}
+
+function isLanguageTagList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length <= MAX_ALTERNATIVE_LANGUAGES && value.every(isLanguageTag);
+}
+
+function parseJsonObject(value: unknown, field: string, errors: string[]): Record<string, any> | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+
+    let parsed = value;
+    if (typeof value === 'string') {
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            errors.push(`${field} must be a JSON object`);
+            return undefined;
+        }
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        errors.push(`${field} must be an object`);
+        return undefined;
+    }
+
+    return parsed as Record<string, any>;
+}
+
+function parseBoolean(value: unknown, field: string, errors: string[]): boolean | undefined {
+    if (value === undefined) return undefined;
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+
+    errors.push(`${field} must be true or false`);
+    return undefined;
+}
@@ -0,0 +1,63 @@
+// src/utils/retry.util.ts
+
+import {createCancellationError} from './processing-error.util';
+import type {RetryPolicyConfig} from '../interfaces/config.interface';
+
+export interface RetryOptions {
+    isRetryable: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void | Promise<void>;
+    signal?: AbortSignal; // Aborting cancels the wait before the next attempt
+}
+
+/**
+ * Delay before the given retry (1-based), with exponential backoff capped at maxDelayMs
+ */
+export function getRetryDelay(policy: RetryPolicyConfig, retry: number): number {
+    const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1);
+    return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Run a task, retrying retryable failures according to the policy.
+ * The last error is rethrown once retries are exhausted; aborting the
+ * signal during a backoff wait throws a cancellation error.
+ */
+export async function withRetry<T>(
+    task: (attempt: number) => Promise<T>,
+    policy: RetryPolicyConfig,
+    options: RetryOptions
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            if (attempt > policy.maxRetries || !options.isRetryable(error)) {
+                throw error;
+            }
+
+            const delayMs = getRetryDelay(policy, attempt);
+            await options.onRetry?.(error, attempt, delayMs);
+            await wait(delayMs, options.signal);
+        }
+    }
+}
+
+function wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createCancellationError());
+            return;
+        }
+
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(createCancellationError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, delayMs);
+
+        signal?.addEventListener('abort', onAbort, {once: true});
+    });
+}
@@ -0,0 +1,175 @@
+// src/utils/speech-adaptation.util.ts
+
+import type {SpeechContext} from '../interfaces/audio.interface';
+import type {User, UserContact, VocabularyList, VocabularyListRequest, VocabularyPhrase} from '../interfaces/user.interface';
+
+/**
+ * Speech adaptation: phrases that bias recognition towards names and terms
+ * the user expects to hear. Vocabulary lists keep their own boost; profile and
+ * contact names are added as automatic hints with a lighter boost.
+ */
+
+// Google accepts at most 5000 phrases per request, each up to 100 characters
+export const MAX_PHRASE_LENGTH = 100;
+export const MAX_ADAPTATION_PHRASES = 5000;
+export const MIN_BOOST = 0;
+export const MAX_BOOST = 20;
+export const MAX_VOCABULARY_LISTS = 20;
+export const MAX_PHRASES_PER_LIST = 1000;
+export const MAX_CONTACTS = 5000;
+
+// Names are common words too ("Bill", "May"); a light boost avoids over-correcting
+const AUTOMATIC_HINT_BOOST = 5;
+
+export interface SpeechAdaptationSources {
+    requested?: string[]; // Phrases sent with the upload
+    lists?: VocabularyList[];
+    hints?: string[]; // Automatic hints, see getAutomaticHints
+}
+
+/**
+ * Names the user is likely to say or hear: their own name and their contacts'
+ * full names and first names
+ */
+export function getAutomaticHints(user: Pick<User, 'profile' | 'contacts'>): string[] {
+    const {firstName, lastName} = user.profile || {};
+    const hints = [
+        [firstName, lastName].filter(Boolean).join(' '),
+        firstName || '',
+        lastName || ''
+    ];
+
+    for (const contact of user.contacts || []) {
+        const name = normalizePhrase(contact.name);
+        hints.push(name, name.split(' ')[0]);
+    }
+
+    return hints.filter(hint => hint.length > 1);
+}
+
+/**
+ * Merge upload phrases, enabled vocabulary lists and automatic hints into
+ * speech contexts, one per boost. Phrases are de-duplicated case-insensitively;
+ * earlier sources win when the phrase limit is reached.
+ */
+export function buildSpeechContexts(sources: SpeechAdaptationSources): SpeechContext[] {
+    const seen = new Set<string>();
+    const contexts = new Map<string, SpeechContext>();
+
+    const add = (phrase: string, boost?: number): void => {
+        const normalized = normalizePhrase(phrase);
+        const key = normalized.toLowerCase();
+        if (!normalized || normalized.length > MAX_PHRASE_LENGTH || seen.has(key) || seen.size >= MAX_ADAPTATION_PHRASES) {
+            return;
+        }
+        seen.add(key);
+
+        const contextKey = boost === undefined ? 'none' : String(boost);
+        const context = contexts.get(contextKey) || {phrases: [], ...(boost !== undefined && {boost})};
+        context.phrases.push(normalized);
+        contexts.set(contextKey, context);
+    };
+
+    sources.requested?.forEach(phrase => add(phrase));
+
+    for (const list of sources.lists || []) {
+        if (list.enabled) {
+            list.phrases.forEach(entry => add(entry.phrase, entry.boost ?? list.boost));
+        }
+    }
+
+    sources.hints?.forEach(hint => add(hint, AUTOMATIC_HINT_BOOST));
+
+    return [...contexts.values()];
+}
+
+/**
+ * Validate a vocabulary list sent by the app. Phrases may be plain strings or
+ * { phrase, boost } objects. With partial set, omitted fields are left unset.
+ */
+export function parseVocabularyList(
+    body: Record<string, any>,
+    partial = false
+): { list: VocabularyListRequest; errors: string[] } {
+    const list: VocabularyListRequest = {};
+    const errors: string[] = [];
+
+    if (body.name !== undefined || !partial) {
+        if (typeof body.name !== 'string' || !body.name.trim() || body.name.trim().length > MAX_PHRASE_LENGTH) {
+            errors.push(`name must be a non-empty string of at most ${MAX_PHRASE_LENGTH} characters`);
+        } else {
+            list.name = body.name.trim();
+        }
+    }
+
+    if (body.enabled !== undefined) {
+        if (typeof body.enabled !== 'boolean') {
+            errors.push('enabled must be a boolean');
+        } else {
+            list.enabled = body.enabled;
+        }
+    }
+
+    if (body.boost === null && partial) {
+        list.boost = null;
+    } else if (body.boost !== undefined) {
+        if (!isBoost(body.boost)) {
+            errors.push(`boost must be a number from ${MIN_BOOST} to ${MAX_BOOST}`);
+        } else {
+            list.boost = body.boost;
+        }
+    }
+
+    if (body.phrases !== undefined || !partial) {
+        if (!Array.isArray(body.phrases) || body.phrases.length > MAX_PHRASES_PER_LIST) {
+            errors.push(`phrases must be an array of at most ${MAX_PHRASES_PER_LIST} entries`);
+        } else {
+            const phrases: Array<VocabularyPhrase | null> = body.phrases.map((entry: unknown) => parsePhrase(entry));
+            if (phrases.some(phrase => !phrase)) {
+                errors.push(`phrases must be strings of at most ${MAX_PHRASE_LENGTH} characters ` +
+                    `or { phrase, boost } objects with boost from ${MIN_BOOST} to ${MAX_BOOST}`);
+            } else {
+                list.phrases = phrases as VocabularyPhrase[];
+            }
+        }
+    }
+
+    return {list, errors};
+}
+
+/**
+ * Validate contacts synced from the device; entries without a name are dropped
+ */
+export function parseContacts(value: unknown): { contacts: UserContact[]; errors: string[] } {
+    if (!Array.isArray(value) || value.length > MAX_CONTACTS) {
+        return {contacts: [], errors: [`contacts must be an array of at most ${MAX_CONTACTS} entries`]};
+    }
+
+    const contacts = value
+        .filter(entry => entry && typeof entry.name === 'string' && normalizePhrase(entry.name))
+        .map(entry => ({
+            name: normalizePhrase(entry.name).slice(0, MAX_PHRASE_LENGTH),
+            ...(typeof entry.phoneNumber === 'string' && entry.phoneNumber && {phoneNumber: entry.phoneNumber})
+        }));
+
+    return {contacts, errors: []};
+}
+
+function parsePhrase(entry: unknown): VocabularyPhrase | null {
+    const raw = typeof entry === 'string' ? {phrase: entry} : entry as Record<string, any> | null;
+    const phrase = typeof raw?.phrase === 'string' ? normalizePhrase(raw.phrase) : '';
+
+    if (!phrase || phrase.length > MAX_PHRASE_LENGTH || (raw!.boost !== undefined && !isBoost(raw!.boost))) {
+        return null;
+    }
+
+    return {phrase, ...(raw!.boost !== undefined && {boost: raw!.boost})};
+}
+
+function isBoost(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= MIN_BOOST && value <= MAX_BOOST;
+}
+
+function normalizePhrase(phrase: string): string {
+    return String(phrase || '').trim().replace(/\s+/g, ' ');
+}
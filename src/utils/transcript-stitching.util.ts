@@ -0,0 +1,162 @@
+// src/utils/transcript-stitching.util.ts
+
+import type {WordInfo} from '../interfaces/audio.interface';
+
+/**
+ * Stitch diarized words from overlapping audio windows into one timeline.
+ * Speaker tags are only consistent within a window, so each window's tags are
+ * mapped onto the running timeline's tags using the words both windows heard
+ * in their shared overlap.
+ */
+
+export interface TranscriptWindow {
+    start: number; // seconds from the start of the recording
+    end: number; // seconds
+    words: WordInfo[]; // Recognizer words with times relative to the window
+}
+
+export interface StitchedTranscript {
+    words: Array<WordInfo & { speakerTag: number }>;
+    speakerMappings: Array<Record<number, number>>; // Per window: window tag -> timeline tag
+}
+
+interface TimedWord {
+    word: string;
+    start: number;
+    end: number;
+    confidence: number;
+    tag: number;
+    languageCode?: string;
+}
+
+// Two recognitions of the same spoken word rarely differ by more than this
+const MATCH_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Stitch windows in order. Channel tags name the same speaker in every window,
+ * so with reconcileSpeakers off they are kept as they are.
+ */
+export function stitchWindows(
+    windows: TranscriptWindow[],
+    options: { reconcileSpeakers?: boolean } = {}
+): StitchedTranscript {
+    const reconcile = options.reconcileSpeakers !== false;
+    let timeline: TimedWord[] = [];
+    const speakerMappings: Array<Record<number, number>> = [];
+    let nextTag = 1;
+
+    windows.forEach((window, index) => {
+        const words: TimedWord[] = window.words.map(word => ({
+            word: String(word.word || ''),
+            start: (Number(word.startTime) || 0) + window.start,
+            end: (Number(word.endTime) || 0) + window.start,
+            confidence: Number(word.confidence) || 0,
+            tag: Number(word.speakerTag) || 0,
+            ...(word.languageCode && {languageCode: String(word.languageCode)})
+        }));
+
+        let mapping = new Map(uniqueTags(words).map(tag => [tag, tag]));
+        let cutoff = -Infinity;
+
+        if (index > 0) {
+            const previous = windows[index - 1];
+            const inOverlap = (word: TimedWord): boolean => word.start >= window.start && word.start < previous.end;
+
+            if (reconcile) {
+                mapping = reconcileSpeakers(
+                    timeline.filter(inOverlap),
+                    words.filter(inOverlap),
+                    uniqueTags(words),
+                    uniqueTags(timeline),
+                    nextTag
+                );
+            }
+
+            // Each side of the overlap keeps the half it heard with more context
+            cutoff = (window.start + previous.end) / 2;
+            timeline = timeline.filter(word => word.start < cutoff);
+        }
+
+        mapping.forEach(tag => nextTag = Math.max(nextTag, tag + 1));
+        speakerMappings.push(Object.fromEntries(mapping));
+
+        timeline.push(...words
+            .filter(word => word.start >= cutoff)
+            .map(word => ({...word, tag: word.tag > 0 ? mapping.get(word.tag)! : 0})));
+    });
+
+    return {
+        words: timeline.map(word => ({
+            word: word.word,
+            startTime: word.start,
+            endTime: word.end,
+            confidence: word.confidence,
+            speakerTag: word.tag,
+            ...(word.languageCode && {languageCode: word.languageCode})
+        })),
+        speakerMappings
+    };
+}
+
+/**
+ * Map a window's speaker tags onto timeline tags. Tags are paired by how often
+ * they label the same word in the overlap; tags that cannot be paired take a
+ * timeline speaker not heard in the overlap, or a new tag.
+ */
+function reconcileSpeakers(
+    timelineOverlap: TimedWord[],
+    windowOverlap: TimedWord[],
+    windowTags: number[],
+    timelineTags: number[],
+    nextTag: number
+): Map<number, number> {
+    const votes = new Map<string, number>();
+    const matched = new Set<TimedWord>();
+
+    for (const word of windowOverlap) {
+        if (!word.tag) continue;
+
+        const match = timelineOverlap.find(candidate =>
+            !matched.has(candidate) &&
+            candidate.tag > 0 &&
+            normalize(candidate.word) === normalize(word.word) &&
+            Math.abs(candidate.start - word.start) <= MATCH_TOLERANCE_SECONDS
+        );
+
+        if (match) {
+            matched.add(match);
+            const key = `${word.tag}:${match.tag}`;
+            votes.set(key, (votes.get(key) || 0) + 1);
+        }
+    }
+
+    const mapping = new Map<number, number>();
+    const taken = new Set<number>();
+
+    [...votes.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([key]) => {
+            const [windowTag, timelineTag] = key.split(':').map(Number);
+            if (!mapping.has(windowTag) && !taken.has(timelineTag)) {
+                mapping.set(windowTag, timelineTag);
+                taken.add(timelineTag);
+            }
+        });
+
+    const unused = timelineTags.filter(tag => !taken.has(tag));
+    for (const tag of windowTags) {
+        if (!mapping.has(tag)) {
+            mapping.set(tag, unused.shift() ?? nextTag++);
+        }
+    }
+
+    return mapping;
+}
+
+function uniqueTags(words: TimedWord[]): number[] {
+    return [...new Set(words.map(word => word.tag).filter(tag => tag > 0))].sort((a, b) => a - b);
+}
+
+function normalize(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
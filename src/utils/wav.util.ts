@@ -0,0 +1,94 @@
+// src/utils/wav.util.ts
+
+/**
+ * Minimal WAV (RIFF/PCM) helpers for slicing recordings into windows
+ */
+
+export interface WavInfo {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+    blockAlign: number; // Bytes per sample frame (all channels)
+    byteRate: number;
+    dataOffset: number;
+    dataLength: number;
+    duration: number; // seconds
+}
+
+/**
+ * Parse a WAV header by walking its chunks. Returns null for anything that
+ * is not uncompressed PCM WAV.
+ */
+export function parseWav(buffer: Buffer): WavInfo | null {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+
+    let format: Omit<WavInfo, 'dataOffset' | 'dataLength' | 'duration'> | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+            const audioFormat = buffer.readUInt16LE(body);
+            if (audioFormat !== 1 && audioFormat !== 0xFFFE) {
+                return null; // Compressed (e.g. mu-law) audio cannot be sliced by byte offset
+            }
+
+            format = {
+                channels: buffer.readUInt16LE(body + 2),
+                sampleRate: buffer.readUInt32LE(body + 4),
+                byteRate: buffer.readUInt32LE(body + 8),
+                blockAlign: buffer.readUInt16LE(body + 12),
+                bitsPerSample: buffer.readUInt16LE(body + 14)
+            };
+        } else if (chunkId === 'data' && format) {
+            // Streaming writers may leave the size unset; use what was actually downloaded
+            const dataLength = Math.min(chunkSize, buffer.length - body);
+            return {
+                ...format,
+                dataOffset: body,
+                dataLength,
+                duration: format.byteRate > 0 ? dataLength / format.byteRate : 0
+            };
+        }
+
+        offset = body + chunkSize + (chunkSize % 2); // Chunks are word aligned
+    }
+
+    return null;
+}
+
+/**
+ * Copy the samples between two times (seconds) into a standalone WAV file
+ */
+export function sliceWav(buffer: Buffer, info: WavInfo, startSeconds: number, endSeconds: number): Buffer {
+    const toByte = (seconds: number): number => Math.min(
+        info.dataLength,
+        Math.max(0, Math.floor(seconds * info.sampleRate) * info.blockAlign)
+    );
+
+    const start = toByte(startSeconds);
+    const end = toByte(endSeconds);
+    const data = buffer.subarray(info.dataOffset + start, info.dataOffset + end);
+
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(info.channels, 22);
+    header.writeUInt32LE(info.sampleRate, 24);
+    header.writeUInt32LE(info.byteRate, 28);
+    header.writeUInt16LE(info.blockAlign, 32);
+    header.writeUInt16LE(info.bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(data.length, 40);
+
+    return Buffer.concat([header, data]);
+}
@@ -0,0 +1,67 @@
+// src/utils/word-timings.util.ts
+
+import type {Message, MessageWordTimings} from '../interfaces/conversation.interface';
+
+/**
+ * Word timings are stored on each message as parallel arrays (Firestore does
+ * not allow arrays of arrays, and one object per word would triple the size).
+ * Times are whole milliseconds from the message start.
+ */
+
+export interface TimedWord {
+    word: string;
+    startTime: number; // seconds from the start of the recording
+    endTime: number; // seconds
+    confidence: number;
+}
+
+export interface TimelineWord extends TimedWord {
+    messageId: string;
+    speakerId: string;
+}
+
+/**
+ * Pack a message's words relative to its start time
+ */
+export function compactWordTimings(words: TimedWord[], messageStart: number): MessageWordTimings {
+    return {
+        words: words.map(word => word.word),
+        start: words.map(word => Math.max(0, Math.round((word.startTime - messageStart) * 1000))),
+        end: words.map(word => Math.max(0, Math.round((word.endTime - messageStart) * 1000))),
+        confidence: words.map(word => Math.round((word.confidence || 0) * 100) / 100)
+    };
+}
+
+/**
+ * Unpack a message's words to recording times (seconds)
+ */
+export function expandWordTimings(message: Message): TimelineWord[] {
+    const timings = message.wordTimings;
+    if (!timings) {
+        return [];
+    }
+
+    return timings.words.map((word, index) => ({
+        word,
+        startTime: round(message.startTime + timings.start[index] / 1000),
+        endTime: round(message.startTime + timings.end[index] / 1000),
+        confidence: timings.confidence[index],
+        messageId: message.messageId,
+        speakerId: message.speakerId
+    }));
+}
+
+/**
+ * Words overlapping [from, to) in playback order, across all speakers
+ */
+export function getWordTimeline(messages: Message[], from = 0, to = Infinity): TimelineWord[] {
+    return messages
+        .filter(message => message.endTime >= from && message.startTime < to)
+        .flatMap(expandWordTimings)
+        .filter(word => word.endTime > from && word.startTime < to)
+        .sort((a, b) => a.startTime - b.startTime);
+}
+
+function round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,87 @@
+// tests/unit/services/fixture-speech.provider.test.ts
+// Runs the recognition, diarization and parsing stages offline against a recorded
+// response, the way processRecording does with SPEECH_PROVIDER=fixture.
+
+import {copyFileSync, mkdtempSync, readFileSync, rmSync} from 'fs';
+import {tmpdir} from 'os';
+import path from 'path';
+import {speechToTextService} from '../../../src/services/speech-to-text.service';
+import type {SpeechRecognitionConfig} from '../../../src/interfaces/audio.interface';
+import type {ConversationData} from '../../../src/interfaces/conversation.interface';
+import type {SpeechFixture} from '../../../src/services/speech-providers/fixture-speech.provider';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures', 'speech');
+const RECORDING_ID = 'fixture-billing-call';
+const AUDIO_URI = 'gs://test-bucket/recordings/fixture-billing-call/original.wav';
+
+const config: SpeechRecognitionConfig = {
+    encoding: 'LINEAR16',
+    sampleRateHertz: 8000,
+    languageCode: 'en-US',
+    enableWordTimeOffsets: true,
+    enableAutomaticPunctuation: true,
+    diarizationConfig: {enableSpeakerDiarization: true, minSpeakerCount: 1, maxSpeakerCount: 2}
+};
+
+function transcripts(results: SpeechFixture['response']['results']): string[] {
+    return results.map(result => result.alternatives[0].transcript);
+}
+
+function loadFixture(): SpeechFixture {
+    return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `recording-${RECORDING_ID}.json`), 'utf8'));
+}
+
+describe('fixture speech provider', () => {
+    const env = {...process.env};
+
+    beforeEach(() => {
+        process.env['SPEECH_PROVIDER'] = 'fixture';
+        process.env['SPEECH_FIXTURE_MODE'] = 'replay';
+        process.env['SPEECH_FIXTURES_DIR'] = FIXTURES_DIR;
+    });
+
+    afterEach(() => {
+        process.env = {...env};
+    });
+
+    it('replays a recording fixture through diarization and parsing', async () => {
+        const speech = await speechToTextService.processAudioFile(AUDIO_URI, config, {recordingId: RECORDING_ID});
+        const diarization = speechToTextService.extractSpeakerDiarization(speech);
+        const {speakers, messages} = speechToTextService.convertToConversationFormat(
+            diarization,
+            {} as ConversationData
+        );
+
+        expect(transcripts(speech.results)).toEqual(transcripts(loadFixture().response.results));
+        expect(speech.totalBilledTime).toBe(0.25);
+        expect(speakers.map(speaker => speaker.id)).toEqual(['speaker_1', 'speaker_2']);
+        expect(messages.map(message => [message.speakerId, message.content, message.messageType])).toEqual([
+            ['speaker_1', 'Hello, this is the billing team. How can I help?', 'question'],
+            ['speaker_2', 'Hi. My invoice shows the same charge twice.', 'response'],
+            ['speaker_1', 'Sorry about that. I will refund the duplicate today.', 'statement'],
+            ['speaker_2', 'Great, thank you!', 'statement']
+        ]);
+    });
+
+    it('falls back to the audio hash when there is no recording fixture', async () => {
+        const directory = mkdtempSync(path.join(tmpdir(), 'speech-fixtures-'));
+        const fixture = loadFixture();
+        copyFileSync(
+            path.join(FIXTURES_DIR, `recording-${RECORDING_ID}.json`),
+            path.join(directory, `audio-${fixture.audioHash}.json`)
+        );
+        process.env['SPEECH_FIXTURES_DIR'] = directory;
+
+        try {
+            const speech = await speechToTextService.processAudioFile(AUDIO_URI, config, {recordingId: 'unknown'});
+            expect(transcripts(speech.results)).toEqual(transcripts(fixture.response.results));
+        } finally {
+            rmSync(directory, {recursive: true, force: true});
+        }
+    });
+
+    it('fails the run when no fixture matches', async () => {
+        await expect(speechToTextService.processAudioFile('gs://test-bucket/missing.wav', config, {recordingId: 'missing'}))
+            .rejects.toMatchObject({code: 'SPEECH_FIXTURE_NOT_FOUND'});
+    });
+});
@@ -0,0 +1,24 @@
+// tests/unit/services/lexicon-sentiment.analyzer.test.ts
+
+import {LexiconSentimentAnalyzer} from '../../../src/services/sentiment-analyzers/lexicon-sentiment.analyzer';
+
+describe('lexicon sentiment analyzer', () => {
+    const analyzer = new LexiconSentimentAnalyzer();
+
+    it('ignores words that name Object.prototype members', async () => {
+        const [score, neutral] = await analyzer.analyze([
+            {text: 'The constructor did a great job', language: 'en-US'},
+            {text: 'toString valueOf hasOwnProperty __proto__', language: 'en-US'}
+        ]);
+
+        expect(score).toMatchObject({label: 'positive'});
+        expect(Number.isFinite(score?.score)).toBe(true);
+        expect(neutral).toMatchObject({score: 0, label: 'neutral'});
+    });
+
+    it('leaves languages without a lexicon unscored', async () => {
+        const [score] = await analyzer.analyze([{text: 'great', language: 'constructor'}]);
+
+        expect(score).toBeUndefined();
+    });
+});
@@ -0,0 +1,126 @@
+// tests/unit/utils/diarization.util.test.ts
+// Golden tests: recorded recognition responses must keep producing the stored segments.
+// Run with UPDATE_GOLDEN=1 to rewrite the golden files after an intended change.
+
+import {readFileSync, writeFileSync} from 'fs';
+import path from 'path';
+import {
+    extractSpeakerSegments,
+    getAuthoritativeWords,
+    normalizeWords,
+    smoothSpeakerFlips
+} from '../../../src/utils/diarization.util';
+import {getLanguageSpans} from '../../../src/utils/language.util';
+import type {SpeechFixture} from '../../../src/services/speech-providers/fixture-speech.provider';
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures');
+const GOLDEN_CASES = ['two-speaker-support-call'];
+
+function loadFixture(name: string): SpeechFixture {
+    return JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'speech', `${name}.json`), 'utf8'));
+}
+
+function summarize(results: any[]) {
+    return extractSpeakerSegments(results, {
+        fallbackLanguage: 'en-US',
+        languageSpans: getLanguageSpans(results, 'en-US')
+    }).map(segment => ({
+        speakerTag: segment.speakerTag,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        confidence: Math.round(segment.confidence * 1000) / 1000,
+        wordCount: segment.wordCount,
+        languageCode: segment.languageCode,
+        transcript: segment.transcript
+    }));
+}
+
+describe('diarization extraction golden files', () => {
+    it.each(GOLDEN_CASES)('%s matches its golden segments', name => {
+        const goldenPath = path.join(FIXTURES_DIR, 'diarization', `${name}.golden.json`);
+        const segments = summarize(loadFixture(name).response.results);
+
+        if (process.env['UPDATE_GOLDEN']) {
+            writeFileSync(goldenPath, JSON.stringify(segments, null, 2) + '\n');
+        }
+
+        expect(segments).toEqual(JSON.parse(readFileSync(goldenPath, 'utf8')));
+    });
+});
+
+describe('getAuthoritativeWords', () => {
+    it('reads only the last tagged result so no word is counted twice', () => {
+        const {results} = loadFixture('two-speaker-support-call').response;
+        const words = getAuthoritativeWords(results);
+        const transcribed = results.slice(0, -1).reduce((sum, result) => sum + result.alternatives[0].words!.length, 0);
+
+        expect(words).toHaveLength(transcribed);
+        expect(words).toBe(results[results.length - 1].alternatives[0].words);
+    });
+
+    it('falls back to every word in order when nothing is tagged', () => {
+        const results = [
+            {alternatives: [{transcript: 'hello', confidence: 0.9, words: [{word: 'hello', startTime: 0, endTime: 0.5, confidence: 0.9}]}]},
+            {alternatives: [{transcript: 'there', confidence: 0.9, words: [{word: 'there', startTime: 0.5, endTime: 1, confidence: 0.9}]}]}
+        ];
+
+        expect(normalizeWords(getAuthoritativeWords(results)).map(word => [word.word, word.speakerTag]))
+            .toEqual([['hello', 1], ['there', 1]]);
+    });
+});
+
+describe('segment statistics', () => {
+    it('uses the true mean of word confidences', () => {
+        const [segment] = extractSpeakerSegments([{
+            alternatives: [{
+                transcript: 'a b c',
+                confidence: 0.6,
+                words: [
+                    {word: 'a', startTime: 0, endTime: 0.1, confidence: 0.2, speakerTag: 1},
+                    {word: 'b', startTime: 0.1, endTime: 0.2, confidence: 0.6, speakerTag: 1},
+                    {word: 'c', startTime: 0.2, endTime: 0.3, confidence: 1, speakerTag: 1}
+                ]
+            }]
+        }]);
+
+        // A running pairwise average would give 0.8
+        expect(segment.confidence).toBeCloseTo(0.6, 10);
+        expect(segment.wordCount).toBe(3);
+    });
+});
+
+describe('smoothSpeakerFlips', () => {
+    const word = (text: string, start: number, end: number, speakerTag: number) =>
+        ({word: text, startTime: start, endTime: end, confidence: 0.9, speakerTag});
+
+    it('relabels a short run inside continuous speech', () => {
+        const words = [
+            word('one', 0, 0.3, 1), word('two', 0.3, 0.6, 1), word('three', 0.6, 0.9, 1),
+            word('four', 0.9, 1.2, 2),
+            word('five', 1.2, 1.5, 1), word('six', 1.5, 1.8, 1)
+        ];
+
+        expect(smoothSpeakerFlips(words).map(entry => entry.speakerTag)).toEqual([1, 1, 1, 1, 1, 1]);
+        expect(words[3].speakerTag).toBe(2);
+    });
+
+    it('keeps a short reply set off by pauses', () => {
+        const words = [
+            word('did', 0, 0.3, 1), word('you', 0.3, 0.6, 1), word('go', 0.6, 0.9, 1),
+            word('yes', 1.6, 1.9, 2),
+            word('good', 2.8, 3.1, 1), word('then', 3.1, 3.4, 1)
+        ];
+
+        expect(smoothSpeakerFlips(words).map(entry => entry.speakerTag)).toEqual([1, 1, 1, 2, 1, 1]);
+    });
+
+    it('keeps runs as long as a neighbouring turn', () => {
+        const words = [
+            word('okay', 0, 0.3, 1),
+            word('sure', 0.3, 0.6, 2),
+            word('right', 0.6, 0.9, 1)
+        ];
+
+        expect(smoothSpeakerFlips(words).map(entry => entry.speakerTag)).toEqual([1, 2, 1]);
+    });
+});